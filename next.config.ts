@@ -21,7 +21,13 @@ const nextConfig: NextConfig = {
       },
     ],
   },
-  // Prevent webpack from bundling server-only Node.js packages (Genkit/OpenTelemetry)
+  experimental: {
+    serverActions: {
+      // Persona imports send the whole export file (up to PERSONA_IMPORT_MAX_FILE_BYTES) to a server action.
+      bodySizeLimit: '5mb',
+    },
+  },
+  // Prevent webpack from bundling server-only Node.js packages (Genkit/OpenTelemetry/Firebase Admin)
   serverExternalPackages: [
     '@opentelemetry/sdk-node',
     '@opentelemetry/instrumentation',
@@ -32,6 +38,7 @@ const nextConfig: NextConfig = {
     '@genkit-ai/core',
     '@genkit-ai/googleai',
     '@genkit-ai/next',
+    'firebase-admin',
   ],
 };
 
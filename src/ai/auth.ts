@@ -0,0 +1,69 @@
+/**
+ * @fileOverview Server-side authentication for AI flows. Every exported AI action runs through this before its flow.
+ *
+ * - getAuthenticatedFlowContext - Verifies the caller's Firebase ID token and builds the flow context (verified userId, Gemini key, usage meter).
+ * - AuthenticatedFlowContext - The context attached to every AI flow run.
+ * - assertPersonaAvailable - Rejects flows for a persona the caller does not own or that is soft-locked.
+ *
+ * Tokens are verified with the Firebase Admin SDK. When FIREBASE_AUTH_EMULATOR_HOST is set, the Admin SDK
+ * accepts tokens from the local Auth emulator instead, so the same path works offline.
+ */
+
+import { UserFacingError } from 'genkit';
+import { getAdminAuth } from '@/lib/firebase-admin';
+import { resolveGeminiApiKey } from '@/ai/user-api-key';
+import { getPersonaAccess } from '@/lib/admin-personas';
+import { createAiUsageMeter, type AiUsageMeter } from '@/ai/usage';
+
+export type AuthenticatedFlowContext = {
+  auth: {
+    uid: string;
+    email?: string;
+    emailVerified: boolean;
+  };
+  userId: string;
+  geminiApiKey?: string;
+  usage: AiUsageMeter; // Filled in by the model calls of the flow this context is attached to
+};
+
+export async function getAuthenticatedFlowContext(idToken: string | null | undefined): Promise<AuthenticatedFlowContext> {
+  if (!idToken) {
+    throw new UserFacingError('UNAUTHENTICATED', 'You must be signed in to use AI features.');
+  }
+
+  let decodedToken;
+  try {
+    decodedToken = await getAdminAuth().verifyIdToken(idToken);
+  } catch (error: any) {
+    console.warn(`[AI Auth] ID token verification failed: ${error.message}`);
+    throw new UserFacingError('UNAUTHENTICATED', 'Your session could not be verified. Please sign in again.');
+  }
+
+  if (!decodedToken.email_verified) {
+    throw new UserFacingError('PERMISSION_DENIED', 'Please verify your email address before using AI features.');
+  }
+
+  return {
+    auth: {
+      uid: decodedToken.uid,
+      email: decodedToken.email,
+      emailVerified: true,
+    },
+    userId: decodedToken.uid,
+    geminiApiKey: await resolveGeminiApiKey(decodedToken.uid),
+    usage: createAiUsageMeter(),
+  };
+}
+
+export async function assertPersonaAvailable(context: AuthenticatedFlowContext, personaId: string): Promise<void> {
+  const access = await getPersonaAccess(context.userId, personaId);
+  if (access === 'not-found') {
+    throw new UserFacingError('NOT_FOUND', 'This persona could not be found.');
+  }
+  if (access === 'locked') {
+    throw new UserFacingError(
+      'PERMISSION_DENIED',
+      'This persona is locked because you have more personas than your quota allows. Delete other personas or buy more slots to unlock it.'
+    );
+  }
+}
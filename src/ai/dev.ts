@@ -6,3 +6,5 @@ import '@/ai/flows/generate-response.ts';
 import '@/ai/flows/analyze-persona-insights.ts';
 import '@/ai/flows/develop-persona-flow.ts';
 import '@/ai/flows/ask-about-persona.ts';
+import '@/ai/flows/summarize-conversation.ts';
+import '@/ai/flows/merge-persona-analyses.ts';
@@ -7,10 +7,13 @@
  * - AskAboutPersonaOutput - The return type for the askAboutPersona function.
  */
 
-import { ai } from '@/ai/genkit';
+import { ai, withFlowContext } from '@/ai/genkit';
+import { assertPersonaAvailable, getAuthenticatedFlowContext } from '@/ai/auth';
+import { runMeteredFlow } from '@/ai/usage';
 import { z } from 'genkit';
 
 const AskAboutPersonaInputSchema = z.object({
+  personaId: z.string().min(1).describe("The id of the caller's persona, checked against the persona quota before running."),
   personaDescription: z
     .string()
     .describe('The detailed description of the AI persona.'),
@@ -26,9 +29,12 @@ const AskAboutPersonaOutputSchema = z.object({
 export type AskAboutPersonaOutput = z.infer<typeof AskAboutPersonaOutputSchema>;
 
 export async function askAboutPersona(
-  input: AskAboutPersonaInput
+  input: AskAboutPersonaInput,
+  idToken: string | null
 ): Promise<AskAboutPersonaOutput> {
-  return askAboutPersonaFlow(input);
+  const context = await getAuthenticatedFlowContext(idToken);
+  await assertPersonaAvailable(context, input.personaId);
+  return runMeteredFlow('askAboutPersonaFlow', context, () => askAboutPersonaFlow(input, { context }));
 }
 
 const prompt = ai.definePrompt({
@@ -54,11 +60,11 @@ const askAboutPersonaFlow = ai.defineFlow(
     inputSchema: AskAboutPersonaInputSchema,
     outputSchema: AskAboutPersonaOutputSchema,
   },
-  async input => {
+  async (input, { context }) => {
     if (!input.personaDescription || input.personaDescription.trim() === '') {
       return { answer: "The persona description is missing or empty, so I cannot answer questions about it." };
     }
-    const { output } = await prompt(input);
+    const { output } = await prompt(input, withFlowContext(context));
     if (!output) {
       throw new Error('AI model returned no output. Please try again.');
     }
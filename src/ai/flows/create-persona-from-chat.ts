@@ -8,13 +8,24 @@
  * - CreatePersonaFromChatOutput - The return type for the createPersonaFromChat function.
  */
 
-import { ai } from '@/ai/genkit';
+import { ai, withFlowContext } from '@/ai/genkit';
+import { getAuthenticatedFlowContext } from '@/ai/auth';
+import { runMeteredFlow } from '@/ai/usage';
 import { z } from 'genkit';
+import { PersonaProfileSchema } from '@/ai/persona-profile';
 
 const CreatePersonaFromChatInputSchema = z.object({
   chatHistory: z
     .string()
     .describe('The chat history to analyze, as a single string.'),
+  targetSpeaker: z
+    .string()
+    .optional()
+    .describe('For imported chat exports: the participant to model. Lines from anyone else are only context.'),
+  part: z
+    .object({ number: z.number().int().min(1), total: z.number().int().min(1) })
+    .optional()
+    .describe('Set when a long history is analyzed in parts: which part this chatHistory is.'),
 });
 export type CreatePersonaFromChatInput = z.infer<typeof CreatePersonaFromChatInputSchema>;
 
@@ -24,13 +35,16 @@ const CreatePersonaFromChatOutputSchema = z.object({
     .describe(
       'A detailed description of the persona, including communication style, tone, and common phrases.'
     ),
+  profile: PersonaProfileSchema,
 });
 export type CreatePersonaFromChatOutput = z.infer<typeof CreatePersonaFromChatOutputSchema>;
 
 export async function createPersonaFromChat(
-  input: CreatePersonaFromChatInput
+  input: CreatePersonaFromChatInput,
+  idToken: string | null
 ): Promise<CreatePersonaFromChatOutput> {
-  return createPersonaFromChatFlow(input);
+  const context = await getAuthenticatedFlowContext(idToken);
+  return runMeteredFlow('createPersonaFromChatFlow', context, () => createPersonaFromChatFlow(input, { context }));
 }
 
 const prompt = ai.definePrompt({
@@ -41,6 +55,16 @@ const prompt = ai.definePrompt({
 
   Analyze the following chat history and create a detailed description of the persona, including their communication style, tone, common phrases, and any other relevant characteristics.
 
+  Also fill in the structured profile: tone, formality, vocabulary, catchphrases (copied exactly as written), emoji habits, typical message length, typing quirks, interests and topics to avoid. Only include what the chat history supports; leave a field out rather than guess.
+
+  {{#if targetSpeaker}}
+  The chat history is an excerpt from a conversation between several people, one message per line as "Name: message". Describe ONLY "{{targetSpeaker}}". Lines from other participants are there for context; do not attribute their words, style or phrases to {{targetSpeaker}}.
+  {{/if}}
+
+  {{#if part}}
+  This is part {{part.number}} of {{part.total}} of a longer chat history; the descriptions of all parts are merged afterwards. Describe what this part shows.
+  {{/if}}
+
   Chat History: {{{chatHistory}}}`,
 });
 
@@ -50,8 +74,8 @@ const createPersonaFromChatFlow = ai.defineFlow(
     inputSchema: CreatePersonaFromChatInputSchema,
     outputSchema: CreatePersonaFromChatOutputSchema,
   },
-  async input => {
-    const { output } = await prompt(input);
+  async (input, { context }) => {
+    const { output } = await prompt(input, withFlowContext(context));
     if (!output) {
       throw new Error('AI model returned no output. Please try again.');
     }
@@ -2,18 +2,23 @@
 /**
  * @fileOverview This file defines a Genkit flow for developing and modifying an AI persona's personality.
  *
- * - developPersonaPersonality - A function that takes an existing persona and user prompts to generate a new persona description.
+ * - developPersonaPersonality - A function that takes an existing persona and user prompts to generate a new persona description and profile.
  * - DevelopPersonaPersonalityInput - The input type for the developPersonaPersonality function.
  * - DevelopPersonaPersonalityOutput - The return type for the developPersonaPersonality function.
  */
 
-import { ai } from '@/ai/genkit';
+import { ai, withFlowContext } from '@/ai/genkit';
+import { assertPersonaAvailable, getAuthenticatedFlowContext } from '@/ai/auth';
+import { runMeteredFlow } from '@/ai/usage';
 import { z } from 'genkit';
+import { PersonaProfileSchema } from '@/ai/persona-profile';
 
 const DevelopPersonaPersonalityInputSchema = z.object({
+  personaId: z.string().min(1).describe("The id of the caller's persona, checked against the persona quota before running."),
   currentPersonaDescription: z
     .string()
     .describe('The current detailed description of the persona.'),
+  currentProfile: PersonaProfileSchema.optional().describe('The current structured profile of the persona, if it has one.'),
   developmentPrompts: z
     .string()
     .describe(
@@ -33,13 +38,17 @@ const DevelopPersonaPersonalityOutputSchema = z.object({
   newPersonaDescription: z
     .string()
     .describe('The new, updated persona description after applying the development prompts.'),
+  newProfile: PersonaProfileSchema.describe('The structured profile updated to match the new description.'),
 });
 export type DevelopPersonaPersonalityOutput = z.infer<typeof DevelopPersonaPersonalityOutputSchema>;
 
 export async function developPersonaPersonality(
-  input: DevelopPersonaPersonalityInput
+  input: DevelopPersonaPersonalityInput,
+  idToken: string | null
 ): Promise<DevelopPersonaPersonalityOutput> {
-  return developPersonaPersonalityFlow(input);
+  const context = await getAuthenticatedFlowContext(idToken);
+  await assertPersonaAvailable(context, input.personaId);
+  return runMeteredFlow('developPersonaPersonalityFlow', context, () => developPersonaPersonalityFlow(input, { context }));
 }
 
 const prompt = ai.definePrompt({
@@ -53,6 +62,11 @@ Focus on generating a rich, detailed, and coherent new persona description.
 Existing Persona Description:
 "{{{currentPersonaDescription}}}"
 
+{{#if currentProfile}}
+Existing Structured Profile (JSON):
+{{{json currentProfile}}}
+{{/if}}
+
 User's Development Prompts:
 "{{{developmentPrompts}}}"
 
@@ -61,7 +75,7 @@ User's Development Prompts:
 {{#if age}}Age (for context): {{{age}}}{{/if}}
 {{#if gender}}Gender (for context): {{{gender}}}{{/if}}
 
-Generate the new persona description:`,
+Generate the new persona description and the structured profile to go with it. Keep profile fields the prompts do not touch unchanged{{#unless currentProfile}}, filling them in from the description{{/unless}}.`,
 });
 
 const developPersonaPersonalityFlow = ai.defineFlow(
@@ -70,8 +84,8 @@ const developPersonaPersonalityFlow = ai.defineFlow(
     inputSchema: DevelopPersonaPersonalityInputSchema,
     outputSchema: DevelopPersonaPersonalityOutputSchema,
   },
-  async input => {
-    const { output } = await prompt(input);
+  async (input, { context }) => {
+    const { output } = await prompt(input, withFlowContext(context));
     if (!output) {
       throw new Error('AI model returned no output. Please try again.');
     }
@@ -0,0 +1,110 @@
+/**
+ * @fileOverview Streaming variant of the generateResponse flow. Served token-by-token by the /api/chat/stream route handler.
+ *
+ * This is deliberately not a 'use server' module: those may only export async functions, while the route handler
+ * and generate-response.ts share the input schema and prompt template defined here.
+ *
+ * - GenerateResponseInputSchema - The input schema shared by the streaming and non-streaming response flows.
+ * - GenerateResponsePromptInputSchema - The prompt input: the flow input with the persona profile compiled to text.
+ * - toGenerateResponsePromptInput - Maps the flow input to the prompt input.
+ * - GENERATE_RESPONSE_PROMPT - The prompt template shared by the streaming and non-streaming response flows.
+ * - generateResponseStreamFlow - A flow that streams the persona's reply as plain text chunks.
+ */
+
+import { ai, withFlowContext } from '@/ai/genkit';
+import { z } from 'genkit';
+import { CONVERSATION_MEMORY_WINDOW, STYLE_EXEMPLAR_MAX_CHARS, STYLE_EXEMPLARS_PER_REPLY } from '@/lib/constants';
+import { formatPersonaProfile } from '@/lib/persona-profile';
+import { PersonaProfileSchema } from '@/ai/persona-profile';
+
+const ConversationTurnSchema = z.object({
+  sender: z.enum(['user', 'ai']).describe('Who sent the message: the user or the AI persona.'),
+  text: z.string().describe('The message text.'),
+});
+
+export const GenerateResponseInputSchema = z.object({
+  personaId: z.string().min(1).describe("The id of the caller's persona, checked against the persona quota before generating."),
+  persona: z.string().describe('The AI persona to use for generating the response.'),
+  profile: PersonaProfileSchema.optional().describe('The structured persona profile, if the persona has one.'),
+  styleExemplars: z
+    .array(z.string().max(STYLE_EXEMPLAR_MAX_CHARS))
+    .max(STYLE_EXEMPLARS_PER_REPLY)
+    .optional()
+    .describe('Real messages written by the person the persona imitates, chosen for relevance to the input.'),
+  input: z.string().describe('The user input to respond to.'),
+  context: z.string().describe('The context or situation for the response.'),
+  history: z
+    .array(ConversationTurnSchema)
+    .max(CONVERSATION_MEMORY_WINDOW)
+    .optional()
+    .describe('The most recent prior messages of the conversation, oldest first.'),
+  conversationSummary: z
+    .string()
+    .optional()
+    .describe('A running summary of the conversation before the messages in history.'),
+});
+
+export const GenerateResponsePromptInputSchema = GenerateResponseInputSchema.omit({ personaId: true, profile: true }).extend({
+  compiledProfile: z.string().optional().describe('The persona profile as prompt instructions, one line per field.'),
+});
+type GenerateResponsePromptInput = z.infer<typeof GenerateResponsePromptInputSchema>;
+
+export const toGenerateResponsePromptInput = ({
+  personaId: _personaId,
+  profile,
+  ...input
+}: z.infer<typeof GenerateResponseInputSchema>): GenerateResponsePromptInput => ({
+  ...input,
+  compiledProfile: formatPersonaProfile(profile) || undefined,
+});
+
+export const GENERATE_RESPONSE_PROMPT = `You are an AI persona simulating a real person. Your persona is described as follows: {{{persona}}}.
+
+{{#if compiledProfile}}How you communicate (follow this closely):
+{{{compiledProfile}}}
+
+{{/if}}{{#if styleExemplars}}Real messages written by the person you are simulating. Match their voice: length, punctuation, capitalisation, slang and emoji use. Do not repeat them word for word:
+{{#each styleExemplars}}- {{{this}}}
+{{/each}}
+{{/if}}{{#if conversationSummary}}Summary of your earlier conversation with the user: {{{conversationSummary}}}
+
+{{/if}}{{#if history}}Most recent messages of the conversation, oldest first:
+{{#each history}}{{#ifEquals sender "user"}}User{{else}}You{{/ifEquals}}: {{{text}}}
+{{/each}}
+{{/if}}Given the following input from the user: {{{input}}}.
+
+And the following context: {{{context}}}.
+
+Stay consistent with anything you said earlier in the conversation. Generate a response as the AI persona would:`;
+
+const GenerateResponseStreamOutputSchema = z.object({
+  response: z.string().describe('The full AI persona generated response.'),
+});
+
+const streamPrompt = ai.definePrompt({
+  name: 'generateResponseStreamPrompt',
+  input: { schema: GenerateResponsePromptInputSchema },
+  // Plain text output: structured JSON output cannot be shown to the user until it is complete.
+  prompt: `${GENERATE_RESPONSE_PROMPT}\n\nReply with the message text only.`,
+});
+
+export const generateResponseStreamFlow = ai.defineFlow(
+  {
+    name: 'generateResponseStreamFlow',
+    inputSchema: GenerateResponseInputSchema,
+    outputSchema: GenerateResponseStreamOutputSchema,
+    streamSchema: z.string(),
+  },
+  async (input, { context, sendChunk, abortSignal }) => {
+    // The signal reaches the model request itself, so a reply the user stops is not generated (or metered) to the end.
+    const { stream, response } = streamPrompt.stream(toGenerateResponsePromptInput(input), { ...withFlowContext(context), abortSignal });
+    for await (const chunk of stream) {
+      if (chunk.text) sendChunk(chunk.text);
+    }
+    const { text } = await response;
+    if (!text) {
+      throw new Error('AI model returned no output. Please try again.');
+    }
+    return { response: text };
+  }
+);
@@ -7,14 +7,17 @@
  * - GenerateResponseOutput - The return type for the generateResponse function.
  */
 
-import { ai } from '@/ai/genkit';
+import { ai, withFlowContext } from '@/ai/genkit';
+import { assertPersonaAvailable, getAuthenticatedFlowContext } from '@/ai/auth';
+import { runMeteredFlow } from '@/ai/usage';
+import {
+  GenerateResponseInputSchema,
+  GenerateResponsePromptInputSchema,
+  GENERATE_RESPONSE_PROMPT,
+  toGenerateResponsePromptInput,
+} from '@/ai/flows/generate-response-stream';
 import { z } from 'genkit';
 
-const GenerateResponseInputSchema = z.object({
-  persona: z.string().describe('The AI persona to use for generating the response.'),
-  input: z.string().describe('The user input to respond to.'),
-  context: z.string().describe('The context or situation for the response.'),
-});
 export type GenerateResponseInput = z.infer<typeof GenerateResponseInputSchema>;
 
 const GenerateResponseOutputSchema = z.object({
@@ -22,15 +25,17 @@ const GenerateResponseOutputSchema = z.object({
 });
 export type GenerateResponseOutput = z.infer<typeof GenerateResponseOutputSchema>;
 
-export async function generateResponse(input: GenerateResponseInput): Promise<GenerateResponseOutput> {
-  return generateResponseFlow(input);
+export async function generateResponse(input: GenerateResponseInput, idToken: string | null): Promise<GenerateResponseOutput> {
+  const context = await getAuthenticatedFlowContext(idToken);
+  await assertPersonaAvailable(context, input.personaId);
+  return runMeteredFlow('generateResponseFlow', context, () => generateResponseFlow(input, { context }));
 }
 
 const prompt = ai.definePrompt({
   name: 'generateResponsePrompt',
-  input: { schema: GenerateResponseInputSchema },
+  input: { schema: GenerateResponsePromptInputSchema },
   output: { schema: GenerateResponseOutputSchema },
-  prompt: `You are an AI persona simulating a real person. Your persona is described as follows: {{{persona}}}.\n\nGiven the following input from the user: {{{input}}}.\n\nAnd the following context: {{{context}}}.\n\nGenerate a response as the AI persona would:`,
+  prompt: GENERATE_RESPONSE_PROMPT,
 });
 
 const generateResponseFlow = ai.defineFlow(
@@ -39,8 +44,8 @@ const generateResponseFlow = ai.defineFlow(
     inputSchema: GenerateResponseInputSchema,
     outputSchema: GenerateResponseOutputSchema,
   },
-  async input => {
-    const { output } = await prompt(input);
+  async (input, { context }) => {
+    const { output } = await prompt(toGenerateResponsePromptInput(input), withFlowContext(context));
     if (!output) {
       throw new Error('AI model returned no output. Please try again.');
     }
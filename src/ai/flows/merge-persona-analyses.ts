@@ -0,0 +1,147 @@
+'use server';
+/**
+ * @fileOverview Genkit flows for the reduce step of chunked persona analysis. Large seed histories are analyzed in
+ * chunks (see src/lib/chunked-analysis.ts); these flows merge the per-chunk prose into one result. Sentiment is
+ * merged deterministically in src/lib/insights-merge.ts and the other stats are computed in src/lib/text-stats.ts.
+ *
+ * - mergePersonaDescriptions - Merges per-chunk persona descriptions and profiles into one personaDescription and profile.
+ * - mergePersonaInsightsNarratives - Merges per-chunk insight summaries and MBTI notes into one narrative.
+ * - MergePersonaDescriptionsInput / MergePersonaDescriptionsOutput - Types for mergePersonaDescriptions.
+ * - MergePersonaInsightsNarrativesInput / MergePersonaInsightsNarrativesOutput - Types for mergePersonaInsightsNarratives.
+ */
+
+import { ai, withFlowContext } from '@/ai/genkit';
+import { getAuthenticatedFlowContext } from '@/ai/auth';
+import { runMeteredFlow } from '@/ai/usage';
+import { z } from 'genkit';
+import { PersonaProfileSchema } from '@/ai/persona-profile';
+
+const MergePersonaDescriptionsInputSchema = z.object({
+  partialDescriptions: z
+    .array(z.string())
+    .min(1)
+    .describe('Persona descriptions written from consecutive parts of the same chat history, oldest part first.'),
+  partialProfiles: z
+    .array(PersonaProfileSchema)
+    .describe('The structured profile written for each part, in the same order as partialDescriptions.'),
+  targetSpeaker: z
+    .string()
+    .optional()
+    .describe('For imported chat exports: the participant being described.'),
+});
+export type MergePersonaDescriptionsInput = z.infer<typeof MergePersonaDescriptionsInputSchema>;
+
+const MergePersonaDescriptionsOutputSchema = z.object({
+  personaDescription: z
+    .string()
+    .describe('One detailed description of the persona, including communication style, tone, and common phrases.'),
+  profile: PersonaProfileSchema,
+});
+export type MergePersonaDescriptionsOutput = z.infer<typeof MergePersonaDescriptionsOutputSchema>;
+
+const MergePersonaInsightsNarrativesInputSchema = z.object({
+  summaries: z
+    .array(z.string())
+    .min(1)
+    .describe('Personality summaries written from consecutive parts of the same chat history, oldest part first.'),
+  observedTraits: z.array(z.string()).describe('MBTI-related traits observed across all parts (may repeat).'),
+  compatibilityNotes: z.array(z.string()).describe('MBTI compatibility notes from each part, if any.'),
+  mbtiType: z.string().optional().describe('The MBTI type of the persona, if known.'),
+});
+export type MergePersonaInsightsNarrativesInput = z.infer<typeof MergePersonaInsightsNarrativesInputSchema>;
+
+const MergePersonaInsightsNarrativesOutputSchema = z.object({
+  summary: z.string().describe("A brief summary of the persona's overall personality and communication style."),
+  observedTraits: z.array(z.string()).max(8).describe('The most consistently observed MBTI-related traits, deduplicated.'),
+  compatibilityNotes: z.string().optional().describe('Brief notes on communication compatibility based on the MBTI type.'),
+});
+export type MergePersonaInsightsNarrativesOutput = z.infer<typeof MergePersonaInsightsNarrativesOutputSchema>;
+
+export async function mergePersonaDescriptions(
+  input: MergePersonaDescriptionsInput,
+  idToken: string | null
+): Promise<MergePersonaDescriptionsOutput> {
+  const context = await getAuthenticatedFlowContext(idToken);
+  return runMeteredFlow('mergePersonaDescriptionsFlow', context, () => mergePersonaDescriptionsFlow(input, { context }));
+}
+
+export async function mergePersonaInsightsNarratives(
+  input: MergePersonaInsightsNarrativesInput,
+  idToken: string | null
+): Promise<MergePersonaInsightsNarrativesOutput> {
+  const context = await getAuthenticatedFlowContext(idToken);
+  return runMeteredFlow('mergePersonaInsightsNarrativesFlow', context, () => mergePersonaInsightsNarrativesFlow(input, { context }));
+}
+
+const descriptionsPrompt = ai.definePrompt({
+  name: 'mergePersonaDescriptionsPrompt',
+  input: { schema: MergePersonaDescriptionsInputSchema },
+  output: { schema: MergePersonaDescriptionsOutputSchema },
+  prompt: `You are an expert in analyzing communication styles from chat histories.
+
+A long chat history was split into parts and a persona description was written for each part{{#if targetSpeaker}}, describing "{{targetSpeaker}}"{{/if}}.
+Merge them into ONE detailed description of the persona, covering communication style, tone, common phrases and other relevant characteristics.
+Keep traits and phrases that recur across parts, note how the persona changes over time if the parts disagree, and do not mention the parts themselves.
+
+Also merge the per-part structured profiles into one. Keep catchphrases, quirks and interests that recur across parts, and prefer the most recent parts when they disagree.
+
+Per-part descriptions, oldest first:
+{{#each partialDescriptions}}---
+{{{this}}}
+
+{{/each}}
+Structured profiles, in the same order (JSON):
+{{{json partialProfiles}}}`,
+});
+
+const narrativesPrompt = ai.definePrompt({
+  name: 'mergePersonaInsightsNarrativesPrompt',
+  input: { schema: MergePersonaInsightsNarrativesInputSchema },
+  output: { schema: MergePersonaInsightsNarrativesOutputSchema },
+  prompt: `You are an AI persona analyst. A long chat history was analyzed in parts. Merge the per-part results into one analysis.
+
+Write one brief summary of the persona's overall personality and communication style. Favour what recurs across parts and mention notable changes over time. Do not mention the parts themselves.
+{{#if mbtiType}}The persona's MBTI type is {{{mbtiType}}}. Return the most consistently observed traits (deduplicated, at most 8) and one short compatibility note.{{else}}No MBTI type is known: return an empty observedTraits list and no compatibility notes.{{/if}}
+
+Per-part summaries, oldest first:
+{{#each summaries}}- {{{this}}}
+{{/each}}
+{{#if observedTraits}}
+Observed traits:
+{{#each observedTraits}}- {{{this}}}
+{{/each}}{{/if}}
+{{#if compatibilityNotes}}
+Compatibility notes:
+{{#each compatibilityNotes}}- {{{this}}}
+{{/each}}{{/if}}`,
+});
+
+const mergePersonaDescriptionsFlow = ai.defineFlow(
+  {
+    name: 'mergePersonaDescriptionsFlow',
+    inputSchema: MergePersonaDescriptionsInputSchema,
+    outputSchema: MergePersonaDescriptionsOutputSchema,
+  },
+  async (input, { context }) => {
+    const { output } = await descriptionsPrompt(input, withFlowContext(context));
+    if (!output) {
+      throw new Error('AI model returned no output. Please try again.');
+    }
+    return output;
+  }
+);
+
+const mergePersonaInsightsNarrativesFlow = ai.defineFlow(
+  {
+    name: 'mergePersonaInsightsNarrativesFlow',
+    inputSchema: MergePersonaInsightsNarrativesInputSchema,
+    outputSchema: MergePersonaInsightsNarrativesOutputSchema,
+  },
+  async (input, { context }) => {
+    const { output } = await narrativesPrompt(input, withFlowContext(context));
+    if (!output) {
+      throw new Error('AI model returned no output. Please try again.');
+    }
+    return output;
+  }
+);
@@ -0,0 +1,80 @@
+'use server';
+/**
+ * @fileOverview This file defines a Genkit flow for rolling older chat turns into a running conversation summary.
+ *
+ * - summarizeConversation - A function that folds a batch of older messages into the previous summary.
+ * - SummarizeConversationInput - The input type for the summarizeConversation function.
+ * - SummarizeConversationOutput - The return type for the summarizeConversation function.
+ */
+
+import { ai, withFlowContext } from '@/ai/genkit';
+import { getAuthenticatedFlowContext } from '@/ai/auth';
+import { runMeteredFlow } from '@/ai/usage';
+import { z } from 'genkit';
+
+const SummarizeConversationInputSchema = z.object({
+  personaName: z.string().describe('The name of the AI persona in the conversation.'),
+  previousSummary: z
+    .string()
+    .optional()
+    .describe('The running summary of everything before these messages, if any.'),
+  messages: z
+    .array(
+      z.object({
+        sender: z.enum(['user', 'ai']).describe('Who sent the message: the user or the AI persona.'),
+        text: z.string().describe('The message text.'),
+      })
+    )
+    .min(1)
+    .describe('The older messages to fold into the summary, oldest first.'),
+});
+export type SummarizeConversationInput = z.infer<typeof SummarizeConversationInputSchema>;
+
+const SummarizeConversationOutputSchema = z.object({
+  summary: z
+    .string()
+    .describe('The updated running summary of the whole conversation so far.'),
+});
+export type SummarizeConversationOutput = z.infer<typeof SummarizeConversationOutputSchema>;
+
+export async function summarizeConversation(
+  input: SummarizeConversationInput,
+  idToken: string | null
+): Promise<SummarizeConversationOutput> {
+  const context = await getAuthenticatedFlowContext(idToken);
+  return runMeteredFlow('summarizeConversationFlow', context, () => summarizeConversationFlow(input, { context }));
+}
+
+const prompt = ai.definePrompt({
+  name: 'summarizeConversationPrompt',
+  input: { schema: SummarizeConversationInputSchema },
+  output: { schema: SummarizeConversationOutputSchema },
+  prompt: `You maintain the long-term memory of a conversation between a user and an AI persona named {{{personaName}}}.
+Update the running summary so that it also covers the new messages below. Keep facts the user shared, commitments or opinions {{{personaName}}} expressed, open questions and the overall tone.
+Drop small talk. Write in the third person and keep the summary under 250 words.
+
+{{#if previousSummary}}Current summary:
+"{{{previousSummary}}}"
+{{else}}There is no summary yet.
+{{/if}}
+New messages, oldest first:
+{{#each messages}}{{#ifEquals sender "user"}}User{{else}}{{{@root.personaName}}}{{/ifEquals}}: {{{text}}}
+{{/each}}
+
+Updated summary:`,
+});
+
+const summarizeConversationFlow = ai.defineFlow(
+  {
+    name: 'summarizeConversationFlow',
+    inputSchema: SummarizeConversationInputSchema,
+    outputSchema: SummarizeConversationOutputSchema,
+  },
+  async (input, { context }) => {
+    const { output } = await prompt(input, withFlowContext(context));
+    if (!output) {
+      throw new Error('AI model returned no output. Please try again.');
+    }
+    return output;
+  }
+);
@@ -1,12 +1,20 @@
-import { genkit, type Genkit } from 'genkit';
+import { genkit, type ActionContext, type Genkit } from 'genkit';
 import { googleAI } from '@genkit-ai/googleai';
+import type { ModelMiddleware } from 'genkit/model';
+import type { AuthenticatedFlowContext } from '@/ai/auth';
+import { meterModelUsage } from '@/ai/usage';
 
 let _ai: Genkit | null = null;
 
+/** The deployment's own Gemini key, used only when the calling user has not set one. */
+export const getServerGeminiApiKey = (): string | undefined =>
+  process.env.GEMINI_API_KEY || process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY;
+
 function getAI(): Genkit {
   if (!_ai) {
     _ai = genkit({
-      plugins: [googleAI({ apiKey: process.env.GEMINI_API_KEY || process.env.GOOGLE_GENAI_API_KEY || process.env.GOOGLE_API_KEY })],
+      // `false` lets the plugin start without a server key; every call must then supply one via config.apiKey.
+      plugins: [googleAI({ apiKey: getServerGeminiApiKey() || false })],
       model: 'googleai/gemini-2.0-flash',
     });
   }
@@ -18,3 +26,18 @@ export const ai = new Proxy({} as Genkit, {
     return (getAI() as unknown as Record<string | symbol, unknown>)[prop];
   },
 });
+
+/**
+ * Per-request generate options for a prompt run inside an authenticated flow: the caller's own Gemini key
+ * (without one the plugin-level server key is used) and token metering into the caller's usage ledger.
+ */
+export function withFlowContext(context?: ActionContext): {
+  config?: { apiKey: string };
+  use?: ModelMiddleware[];
+} {
+  const { geminiApiKey, usage } = (context ?? {}) as Partial<AuthenticatedFlowContext>;
+  return {
+    ...(geminiApiKey ? { config: { apiKey: geminiApiKey } } : {}),
+    ...(usage ? { use: [meterModelUsage(usage)] } : {}),
+  };
+}
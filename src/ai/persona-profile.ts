@@ -0,0 +1,24 @@
+/**
+ * @fileOverview Genkit schema for the structured persona profile (see PersonaProfile in src/lib/types.ts), shared by
+ * the flows that produce, edit and use it. Not a 'use server' module, so it can export the schema object.
+ *
+ * - PersonaProfileSchema - The structured persona profile: tone, formality, vocabulary, catchphrases and so on.
+ */
+
+import { z } from 'genkit';
+import { PERSONA_FORMALITY_LEVELS, PERSONA_MESSAGE_LENGTHS, type PersonaProfile } from '@/lib/types';
+import { PERSONA_PROFILE_LIST_LIMIT } from '@/lib/persona-profile';
+
+const ProfileListSchema = z.array(z.string()).max(PERSONA_PROFILE_LIST_LIMIT);
+
+export const PersonaProfileSchema: z.ZodType<PersonaProfile> = z.object({
+  tone: z.string().optional().describe('Overall tone, e.g. "warm and teasing" or "dry and matter-of-fact".'),
+  formality: z.enum(PERSONA_FORMALITY_LEVELS).optional().describe('How formal their writing is.'),
+  vocabulary: z.string().optional().describe('Word choice: slang, jargon, favourite words, languages they mix in.'),
+  catchphrases: ProfileListSchema.optional().describe('Phrases they use repeatedly, written exactly as they write them.'),
+  emojiHabits: z.string().optional().describe('Which emojis they use, how often and where, or that they never use any.'),
+  messageLength: z.enum(PERSONA_MESSAGE_LENGTHS).optional().describe('Their typical message length.'),
+  typingQuirks: ProfileListSchema.optional().describe('Typing habits such as all lowercase, no punctuation, double texting.'),
+  interests: ProfileListSchema.optional().describe('Topics they bring up or enjoy talking about.'),
+  topicsToAvoid: ProfileListSchema.optional().describe('Topics they avoid or react badly to.'),
+}).describe('Structured profile of how the persona communicates.');
@@ -0,0 +1,146 @@
+/**
+ * @fileOverview Server-side AI usage metering and rate limiting, backed by the `ai_usage/{userId}` ledger.
+ *
+ * - runMeteredFlow - Checks the caller's caps, runs a flow and records its calls, tokens and latency.
+ * - reserveAiUsage - Counts a call against the caller's caps up front, or throws RESOURCE_EXHAUSTED once one is reached.
+ * - recordAiUsage - Adds one call to the caller's daily and monthly totals, overall and per flow, and its tokens to the counters.
+ * - meterModelUsage - Model middleware that adds each model response's token counts to an AiUsageMeter.
+ * - AiUsageMeter - Token counts accumulated while a single flow runs.
+ *
+ * Only the server writes the ledger (security rules allow the owner to read it), and caps come from AI_USAGE_LIMITS.
+ */
+
+import { UserFacingError } from 'genkit';
+import type { ModelMiddleware } from 'genkit/model';
+import { ServerValue } from 'firebase-admin/database';
+import { getAdminDb } from '@/lib/firebase-admin';
+import { AI_USAGE_PATH_BASE } from '@/lib/store';
+import { getUserEntitlements } from '@/lib/entitlements';
+import { getUserPlan } from '@/lib/plans';
+import {
+  EMPTY_AI_USAGE_TOTALS,
+  findExceededAiUsageCap,
+  getAiUsageLimits,
+  getAiUsagePeriodKeys,
+  getPeriodTotals,
+  type AiUsageCapExceeded,
+} from '@/lib/ai-usage';
+import type { AiUsageCounter, AiUsageCounters, AiUsagePeriod, AiUsageTotals } from '@/lib/types';
+
+export type AiUsageMeter = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export const createAiUsageMeter = (): AiUsageMeter => ({ inputTokens: 0, outputTokens: 0 });
+
+export function meterModelUsage(meter: AiUsageMeter): ModelMiddleware {
+  return async (req, next) => {
+    const response = await next(req);
+    meter.inputTokens += response.usage?.inputTokens ?? 0;
+    meter.outputTokens += response.usage?.outputTokens ?? 0;
+    return response;
+  };
+}
+
+const toCounter = ({ calls, inputTokens, outputTokens }: AiUsageTotals): AiUsageCounter => ({ calls, inputTokens, outputTokens });
+
+/**
+ * Reserves one call against the caller's caps in a single transaction on their usage counters, so concurrent calls
+ * cannot all pass the check before any of them is counted. A new day or month starts from the ledger's totals for
+ * it. Throws RESOURCE_EXHAUSTED, reserving nothing, once the daily or monthly cap is reached.
+ */
+export async function reserveAiUsage(userId: string): Promise<void> {
+  const { day, month } = getAiUsagePeriodKeys();
+  const db = getAdminDb();
+  const [entitlements, dailySnapshot, monthlySnapshot] = await Promise.all([
+    getUserEntitlements(userId),
+    db.ref(`${AI_USAGE_PATH_BASE}/${userId}/daily/${day}`).get(),
+    db.ref(`${AI_USAGE_PATH_BASE}/${userId}/monthly/${month}`).get(),
+  ]);
+  const limits = getAiUsageLimits(getUserPlan(entitlements));
+  const ledgerDaily = toCounter(getPeriodTotals(dailySnapshot.val() as AiUsagePeriod | null));
+  const ledgerMonthly = toCounter(getPeriodTotals(monthlySnapshot.val() as AiUsagePeriod | null));
+
+  let exceededCap: AiUsageCapExceeded = null;
+  await db.ref(`${AI_USAGE_PATH_BASE}/${userId}/counters`).transaction((current: AiUsageCounters | null) => {
+    const daily = current?.day === day ? current.daily : ledgerDaily;
+    const monthly = current?.month === month ? current.monthly : ledgerMonthly;
+    exceededCap = findExceededAiUsageCap(
+      { ...EMPTY_AI_USAGE_TOTALS, ...daily },
+      { ...EMPTY_AI_USAGE_TOTALS, ...monthly },
+      limits
+    );
+    if (exceededCap) return; // Abort: nothing is reserved
+    return {
+      day,
+      month,
+      daily: { ...daily, calls: daily.calls + 1 },
+      monthly: { ...monthly, calls: monthly.calls + 1 },
+    } satisfies AiUsageCounters;
+  });
+
+  if (exceededCap === 'daily') {
+    throw new UserFacingError('RESOURCE_EXHAUSTED', "You've reached your daily AI usage limit. It resets at midnight UTC.");
+  }
+  if (exceededCap === 'monthly') {
+    throw new UserFacingError('RESOURCE_EXHAUSTED', "You've reached your monthly AI usage limit. It resets on the 1st of next month (UTC).");
+  }
+}
+
+export async function recordAiUsage(
+  userId: string,
+  flowName: string,
+  usage: AiUsageMeter & { latencyMs: number; failed: boolean }
+): Promise<void> {
+  const { day, month } = getAiUsagePeriodKeys();
+  const increments = {
+    calls: ServerValue.increment(1),
+    failedCalls: ServerValue.increment(usage.failed ? 1 : 0),
+    inputTokens: ServerValue.increment(usage.inputTokens),
+    outputTokens: ServerValue.increment(usage.outputTokens),
+    totalLatencyMs: ServerValue.increment(Math.round(usage.latencyMs)),
+  };
+
+  const updates: Record<string, object> = {};
+  for (const periodPath of [`daily/${day}`, `monthly/${month}`]) {
+    for (const [field, increment] of Object.entries(increments)) {
+      updates[`${periodPath}/totals/${field}`] = increment;
+      updates[`${periodPath}/flows/${flowName}/${field}`] = increment;
+    }
+  }
+
+  // The call itself was counted when it was reserved; only its tokens are still missing from the counters.
+  updates['counters/daily/inputTokens'] = ServerValue.increment(usage.inputTokens);
+  updates['counters/daily/outputTokens'] = ServerValue.increment(usage.outputTokens);
+  updates['counters/monthly/inputTokens'] = ServerValue.increment(usage.inputTokens);
+  updates['counters/monthly/outputTokens'] = ServerValue.increment(usage.outputTokens);
+
+  try {
+    await getAdminDb().ref(`${AI_USAGE_PATH_BASE}/${userId}`).update(updates);
+  } catch (error: any) {
+    // Metering must never fail the user's request.
+    console.error(`[AI Usage] Could not record usage of ${flowName} for ${userId}: ${error.message}`);
+  }
+}
+
+export async function runMeteredFlow<T>(
+  flowName: string,
+  context: { userId: string; usage: AiUsageMeter },
+  run: () => Promise<T>
+): Promise<T> {
+  await reserveAiUsage(context.userId);
+  const startedAt = Date.now();
+  let failed = true;
+  try {
+    const result = await run();
+    failed = false;
+    return result;
+  } finally {
+    await recordAiUsage(context.userId, flowName, {
+      ...context.usage,
+      latencyMs: Date.now() - startedAt,
+      failed,
+    });
+  }
+}
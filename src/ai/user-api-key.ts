@@ -0,0 +1,19 @@
+/**
+ * @fileOverview Server-side resolution of the Gemini API key an AI call should run with.
+ *
+ * - resolveGeminiApiKey - Returns a verified user's own `geminiApiKey`, if they have set one.
+ */
+
+import { getAdminDb } from '@/lib/firebase-admin';
+import { USER_SECRETS_PATH } from '@/lib/store';
+
+export async function resolveGeminiApiKey(userId: string): Promise<string | undefined> {
+  try {
+    const snapshot = await getAdminDb().ref(`${USER_SECRETS_PATH}/${userId}/geminiApiKey`).get();
+    const userKey = snapshot.val();
+    return typeof userKey === 'string' && userKey.trim() !== '' ? userKey.trim() : undefined;
+  } catch (error: any) {
+    console.warn(`[Gemini Key] Could not read the Gemini API key for ${userId}, using the server key: ${error.message}`);
+    return undefined;
+  }
+}
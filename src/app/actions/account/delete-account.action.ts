@@ -0,0 +1,43 @@
+'use server';
+
+/**
+ * @fileOverview Server Action that permanently deletes the caller's account: an active Pro subscription is canceled
+ * first so the user is not billed again, then all of their data is removed and finally their Firebase Auth user.
+ */
+
+import { verifyCallerUid } from '@/lib/server-auth';
+import { getAdminAuth } from '@/lib/firebase-admin';
+import { deleteAccountData } from '@/lib/account-data';
+import { getUserEntitlements } from '@/lib/entitlements';
+import { hasActiveProSubscription } from '@/lib/plans';
+import { stripe } from '@/lib/stripe';
+
+interface DeleteAccountResult {
+  success: boolean;
+  message: string;
+}
+
+export async function deleteAccountAction(idToken: string | null): Promise<DeleteAccountResult> {
+  const userId = await verifyCallerUid(idToken);
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  try {
+    const entitlements = await getUserEntitlements(userId);
+    if (hasActiveProSubscription(entitlements)) {
+      if (!stripe) {
+        return { success: false, message: 'Your Pro subscription could not be canceled because billing is unavailable. Please try again later.' };
+      }
+      await stripe.subscriptions.cancel(entitlements!.subscription!.subscriptionId);
+    }
+
+    // Data goes first: if deleting the Auth user then fails, retrying finds an empty account rather than orphaned data.
+    await deleteAccountData(userId);
+    await getAdminAuth().deleteUser(userId);
+    return { success: true, message: 'Your account has been deleted.' };
+  } catch (error: any) {
+    console.error(`Error deleting account ${userId}:`, error);
+    return { success: false, message: `Failed to delete account: ${error.message}` };
+  }
+}
@@ -0,0 +1,31 @@
+'use server';
+
+/**
+ * @fileOverview Server Action that bundles everything stored for the caller's account into one archive. It runs on
+ * the server because the user-to-user threads are found by querying across chat ids, which clients may not do.
+ */
+
+import type { AccountExportArchive } from '@/lib/types';
+import { verifyCallerUid } from '@/lib/server-auth';
+import { buildAccountExport } from '@/lib/account-data';
+
+interface ExportAccountDataResult {
+  success: boolean;
+  message: string;
+  archive?: AccountExportArchive;
+}
+
+export async function exportAccountDataAction(idToken: string | null): Promise<ExportAccountDataResult> {
+  const userId = await verifyCallerUid(idToken);
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  try {
+    const archive = await buildAccountExport(userId);
+    return { success: true, message: 'Account data exported.', archive };
+  } catch (error: any) {
+    console.error(`Error exporting account data for ${userId}:`, error);
+    return { success: false, message: `Failed to export account data: ${error.message}` };
+  }
+}
@@ -0,0 +1,68 @@
+'use server';
+
+/**
+ * @fileOverview Server Action to create a persona. The quota check and the write happen together in one
+ * database transaction on the server, so the limit cannot be bypassed or raced from the browser.
+ */
+
+import type { NewPersonaData, Persona } from '@/lib/types';
+import { verifyCallerUid } from '@/lib/server-auth';
+import { createPersonaWithinQuota } from '@/lib/admin-personas';
+import { parseNewPersona } from '@/lib/persona-export';
+import { generateUserChatId } from '@/lib/store';
+
+interface CreatePersonaResult {
+  success: boolean;
+  message: string;
+  persona?: Persona;
+  quotaExceeded?: boolean;
+  personaCount?: number;
+  personaQuota?: number;
+}
+
+export async function createPersonaAction(
+  personaData: NewPersonaData,
+  idToken: string | null
+): Promise<CreatePersonaResult> {
+  const userId = await verifyCallerUid(idToken);
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  if (!personaData?.name?.trim()) {
+    return { success: false, message: 'A persona name is required.' };
+  }
+  // The Admin SDK write skips the security rules, so the payload is validated here instead.
+  const parsed = parseNewPersona(personaData);
+  if (!parsed.success) {
+    return { success: false, message: parsed.message };
+  }
+  const { persona } = parsed;
+  // A chat-derived persona and its chat link are only valid together.
+  if (persona.originType === 'chat-derived' || persona.derivedFromChatId || persona.derivedRepresentingUserId) {
+    const isOwnChat = persona.originType === 'chat-derived'
+      && !!persona.derivedRepresentingUserId
+      && persona.derivedRepresentingUserId !== userId
+      && persona.derivedFromChatId === generateUserChatId(userId, persona.derivedRepresentingUserId);
+    if (!isOwnChat) {
+      return { success: false, message: 'A chat persona can only be created from one of your own chats.' };
+    }
+  }
+
+  try {
+    const result = await createPersonaWithinQuota(userId, persona);
+    if (!result.created) {
+      return {
+        success: false,
+        quotaExceeded: true,
+        personaCount: result.personaCount,
+        personaQuota: result.personaQuota,
+        message: `You have ${result.personaCount}/${result.personaQuota} personas. Please upgrade to create more.`,
+      };
+    }
+    return { success: true, message: 'Persona created.', persona: result.persona };
+  } catch (error: any) {
+    console.error(`Error creating persona for ${userId}:`, error);
+    return { success: false, message: `Failed to create persona: ${error.message}` };
+  }
+}
@@ -0,0 +1,57 @@
+'use server';
+
+/**
+ * @fileOverview Server Action to import a persona from an exported persona file. The file is validated again here,
+ * and the persona is created through the same quota transaction as a new one, with fresh ids for it and its messages.
+ */
+
+import type { Persona } from '@/lib/types';
+import { verifyCallerUid } from '@/lib/server-auth';
+import { importPersonaWithinQuota } from '@/lib/admin-personas';
+import { parsePersonaExport, PersonaImportError } from '@/lib/persona-export';
+
+interface ImportPersonaResult {
+  success: boolean;
+  message: string;
+  persona?: Persona;
+  importedMessagesCount?: number;
+  quotaExceeded?: boolean;
+  personaCount?: number;
+  personaQuota?: number;
+}
+
+export async function importPersonaAction(
+  exportData: unknown,
+  idToken: string | null
+): Promise<ImportPersonaResult> {
+  const userId = await verifyCallerUid(idToken);
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  try {
+    const { persona, chatMessages } = parsePersonaExport(exportData);
+    const result = await importPersonaWithinQuota(userId, persona, chatMessages);
+    if (!result.created) {
+      return {
+        success: false,
+        quotaExceeded: true,
+        personaCount: result.personaCount,
+        personaQuota: result.personaQuota,
+        message: `You have ${result.personaCount}/${result.personaQuota} personas. Please upgrade to import more.`,
+      };
+    }
+    return {
+      success: true,
+      message: 'Persona imported.',
+      persona: result.persona,
+      importedMessagesCount: chatMessages.length,
+    };
+  } catch (error: any) {
+    if (error instanceof PersonaImportError) {
+      return { success: false, message: error.message };
+    }
+    console.error(`Error importing persona for ${userId}:`, error);
+    return { success: false, message: `Failed to import persona: ${error.message}` };
+  }
+}
@@ -0,0 +1,57 @@
+'use server';
+
+/**
+ * @fileOverview Server Action to restore a persona from the trash. Restored personas count toward the quota again,
+ * so the check and the write happen together in one database transaction on the server.
+ */
+
+import type { Persona } from '@/lib/types';
+import { verifyCallerUid } from '@/lib/server-auth';
+import { restorePersonaWithinQuota } from '@/lib/admin-personas';
+
+interface RestorePersonaResult {
+  success: boolean;
+  message: string;
+  persona?: Persona;
+  quotaExceeded?: boolean;
+  personaCount?: number;
+  personaQuota?: number;
+}
+
+export async function restorePersonaAction(
+  personaId: string,
+  idToken: string | null
+): Promise<RestorePersonaResult> {
+  const userId = await verifyCallerUid(idToken);
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+  if (!personaId) {
+    return { success: false, message: 'A persona id is required.' };
+  }
+
+  try {
+    const result = await restorePersonaWithinQuota(userId, personaId);
+    if (result.restored) {
+      return { success: true, message: 'Persona restored.', persona: result.persona };
+    }
+    if (result.reason === 'quota') {
+      return {
+        success: false,
+        quotaExceeded: true,
+        personaCount: result.personaCount,
+        personaQuota: result.personaQuota,
+        message: `You have ${result.personaCount}/${result.personaQuota} personas. Delete one or upgrade to restore this persona.`,
+      };
+    }
+    return {
+      success: false,
+      message: result.reason === 'duplicate'
+        ? 'You already have a persona for this chat contact. Delete it first to restore this one.'
+        : 'This persona is no longer in the trash.',
+    };
+  } catch (error: any) {
+    console.error(`Error restoring persona ${personaId} for ${userId}:`, error);
+    return { success: false, message: `Failed to restore persona: ${error.message}` };
+  }
+}
@@ -2,14 +2,17 @@
 'use server';
 
 /**
- * @fileOverview Server Action to create a Stripe Checkout session or simulate payment.
- * If Stripe is configured, it creates a real Checkout session.
- * Otherwise, it simulates a successful payment and updates the user's quota directly.
+ * @fileOverview Server Action to create a Stripe Checkout session.
+ * Sells either a one-off persona slot purchase or the Pro subscription.
+ * Entitlements are granted only by the Stripe webhook once the checkout completes, never by this action.
  */
 
 
-import { updateUserProfileInDB, getUserProfileById } from '@/lib/store';
-import { FREE_PERSONA_LIMIT, PERSONAS_PER_PURCHASE, STRIPE_CURRENCY } from '@/lib/constants';
+import { getUserEntitlements, hasUserProfile } from '@/lib/entitlements';
+import { verifyCallerUid } from '@/lib/server-auth';
+import { PERSONAS_PER_PURCHASE } from '@/lib/constants';
+import { hasActiveProSubscription } from '@/lib/plans';
+import type { CheckoutProduct } from '@/lib/types';
 import { stripe, isStripeEnabled } from '@/lib/stripe'; // isStripeEnabled here refers to server-side SDK readiness
 
 interface CheckoutSessionResult {
@@ -17,22 +20,28 @@ interface CheckoutSessionResult {
   message: string;
   sessionId?: string;
   redirectUrl?: string;
-  newQuota?: number; // Only for simulation
 }
 
 export async function createCheckoutSessionAction(
-  userId: string
+  idToken: string | null,
+  product: CheckoutProduct = 'persona-slot'
 ): Promise<CheckoutSessionResult> {
+  const userId = await verifyCallerUid(idToken);
   if (!userId) {
     return { success: false, message: 'User not authenticated.' };
   }
 
-  const userProfile = await getUserProfileById(userId);
-  if (!userProfile) {
+  if (!(await hasUserProfile(userId))) {
     return { success: false, message: 'User profile not found.' };
   }
 
-  const stripePriceId = process.env.STRIPE_PRICE_ID_PERSONA_SLOT;
+  const isSubscription = product === 'pro-subscription';
+  const entitlements = await getUserEntitlements(userId);
+  // A second Pro checkout would start a second, separately billed subscription.
+  if (isSubscription && hasActiveProSubscription(entitlements)) {
+    return { success: false, message: 'You already have an active Pro subscription. Use Manage Subscription to change it.' };
+  }
+  const stripePriceId = isSubscription ? process.env.STRIPE_PRICE_ID_PRO_SUBSCRIPTION : process.env.STRIPE_PRICE_ID_PERSONA_SLOT;
 
   if (isStripeEnabled && stripe && stripePriceId) {
     // --- REAL STRIPE CHECKOUT CREATION ---
@@ -43,6 +52,8 @@ export async function createCheckoutSessionAction(
         return { success: false, message: 'Application URL is not configured on the server. Cannot create Stripe session.' };
       }
 
+      // Reuse the user's Stripe customer so their subscription and purchases share one Customer Portal.
+      const { stripeCustomerId } = entitlements ?? {};
       const session = await stripe.checkout.sessions.create({
         payment_method_types: ['card'],
         line_items: [
@@ -51,15 +62,25 @@ export async function createCheckoutSessionAction(
             quantity: 1,
           },
         ],
-        mode: 'payment',
+        ...(stripeCustomerId ? { customer: stripeCustomerId } : {}),
         success_url: `${appUrl}/payment/success?session_id={CHECKOUT_SESSION_ID}`,
         cancel_url: `${appUrl}/payment/cancel`,
         client_reference_id: userId,
-        metadata: {
-          userId: userId,
-          item: `Purchase of ${PERSONAS_PER_PURCHASE} persona slot(s)`,
-          purchaseUnits: PERSONAS_PER_PURCHASE.toString(),
-        }
+        ...(isSubscription
+          ? {
+              mode: 'subscription',
+              metadata: { userId: userId, item: 'Pro subscription' },
+              // Subscription events don't carry the checkout's metadata, so the user id goes on the subscription too.
+              subscription_data: { metadata: { userId: userId } },
+            }
+          : {
+              mode: 'payment',
+              metadata: {
+                userId: userId,
+                item: `Purchase of ${PERSONAS_PER_PURCHASE} persona slot(s)`,
+                purchaseUnits: PERSONAS_PER_PURCHASE.toString(),
+              },
+            }),
       });
 
       if (!session.url) {
@@ -78,29 +99,19 @@ export async function createCheckoutSessionAction(
       return { success: false, message: `Stripe error: ${error.message}` };
     }
   } else {
-    // --- SIMULATED PAYMENT LOGIC (Stripe not enabled or configured for server-side) ---
-    let simulationMessage = 'Stripe not configured. Simulating payment.';
-    if (!isStripeEnabled) simulationMessage = 'Stripe server-side SDK not enabled. Simulating payment.';
-    else if (!stripe) simulationMessage = 'Stripe instance not available. Simulating payment.';
-    else if (!stripePriceId) simulationMessage = 'Stripe Price ID not configured. Simulating payment.';
-
-    console.log(`${simulationMessage} User: ${userId}.`);
-
-    try {
-      const currentQuota = userProfile.personaQuota === undefined ? FREE_PERSONA_LIMIT : userProfile.personaQuota;
-      const newQuota = currentQuota + PERSONAS_PER_PURCHASE;
-
-      await updateUserProfileInDB(userId, { personaQuota: newQuota });
-
-      console.log(`User ${userId} quota updated to ${newQuota} (simulated payment).`);
-      return {
-        success: true,
-        message: `Payment successful (Simulated). ${PERSONAS_PER_PURCHASE} persona slot(s) added. New quota: ${newQuota}.`,
-        newQuota: newQuota,
-      };
-    } catch (error: any) {
-      console.error('Error updating persona quota during simulation:', error);
-      return { success: false, message: `Failed to update quota (simulation): ${error.message}` };
+    // Quota is only ever granted by the webhook for a completed checkout. Without Stripe there is nothing to sell;
+    // in development, run the local Stripe stand-in (`npm run stripe:local`) to exercise the full flow.
+    let reason = 'Stripe is not configured.';
+    if (!isStripeEnabled || !stripe) reason = 'Stripe server-side SDK is not enabled.';
+    else if (!stripePriceId) reason = `Stripe Price ID for ${product} is not configured.`;
+    console.error(`Checkout unavailable for user ${userId}: ${reason}`);
+
+    if (process.env.NODE_ENV === 'production') {
+      return { success: false, message: 'Payments are currently unavailable. Please try again later.' };
     }
+    return {
+      success: false,
+      message: `${reason} For local development, start the local Stripe stand-in with \`npm run stripe:local\` and set STRIPE_LOCAL_API_URL.`,
+    };
   }
 }
@@ -0,0 +1,52 @@
+
+'use server';
+
+/**
+ * @fileOverview Server Action to open the Stripe Customer Portal, where users manage or cancel their subscription
+ * and download invoices. Changes made there reach us through customer.subscription.* webhook events.
+ */
+
+import { getUserEntitlements } from '@/lib/entitlements';
+import { verifyCallerUid } from '@/lib/server-auth';
+import { stripe, isStripeEnabled } from '@/lib/stripe';
+
+interface CustomerPortalSessionResult {
+  success: boolean;
+  message: string;
+  url?: string;
+}
+
+export async function createCustomerPortalSessionAction(
+  idToken: string | null
+): Promise<CustomerPortalSessionResult> {
+  const userId = await verifyCallerUid(idToken);
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  if (!isStripeEnabled || !stripe) {
+    return { success: false, message: 'Stripe is not configured, so there is no billing portal to open.' };
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) {
+    console.error('CRITICAL: NEXT_PUBLIC_APP_URL is not set. Stripe Customer Portal return URL will be incorrect.');
+    return { success: false, message: 'Application URL is not configured on the server. Cannot open the billing portal.' };
+  }
+
+  const stripeCustomerId = (await getUserEntitlements(userId))?.stripeCustomerId;
+  if (!stripeCustomerId) {
+    return { success: false, message: 'No billing account found. Subscribe to Pro first.' };
+  }
+
+  try {
+    const session = await stripe.billingPortal.sessions.create({
+      customer: stripeCustomerId,
+      return_url: `${appUrl}/profile`,
+    });
+    return { success: true, message: 'Customer Portal session created successfully.', url: session.url };
+  } catch (error: any) {
+    console.error('Stripe Customer Portal session error:', error);
+    return { success: false, message: `Stripe error: ${error.message}` };
+  }
+}
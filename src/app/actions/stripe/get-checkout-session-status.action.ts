@@ -0,0 +1,96 @@
+
+'use server';
+
+/**
+ * @fileOverview Server Action that reports the real state of a Checkout Session for /payment/success.
+ * The session is retrieved from Stripe and checked against the purchase ledger (or the subscription entitlement),
+ * so the page only claims success once the webhook has actually credited the user.
+ */
+
+import type Stripe from 'stripe';
+import { getUserEntitlements } from '@/lib/entitlements';
+import { getPurchase } from '@/lib/purchases';
+import { getEffectivePersonaQuota, hasActiveProSubscription } from '@/lib/plans';
+import { verifyCallerUid } from '@/lib/server-auth';
+import { stripe, isStripeEnabled } from '@/lib/stripe';
+import type { CheckoutProduct, CheckoutSessionState } from '@/lib/types';
+
+interface CheckoutSessionStatusResult {
+  success: boolean;
+  message: string;
+  state?: CheckoutSessionState;
+  product?: CheckoutProduct;
+  personaQuota?: number;
+}
+
+const getSessionState = async (userId: string, session: Stripe.Checkout.Session): Promise<CheckoutSessionState> => {
+  if (session.status !== 'complete') return 'failed';
+
+  if (session.mode === 'subscription') {
+    const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription?.id;
+    const entitlements = await getUserEntitlements(userId);
+    if (entitlements?.subscription?.subscriptionId === subscriptionId && hasActiveProSubscription(entitlements)) {
+      return 'fulfilled';
+    }
+    return session.payment_status === 'unpaid' ? 'payment-pending' : 'awaiting-fulfillment';
+  }
+
+  const purchase = await getPurchase(userId, session.id);
+  // A purchase refunded or disputed since was still credited when it was fulfilled.
+  if (purchase && purchase.status !== 'pending') return 'fulfilled';
+  if (session.payment_status === 'paid') return 'awaiting-fulfillment';
+
+  // Completed but unpaid: a delayed payment method that is either still clearing or has failed.
+  const paymentIntentId = typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+  if (paymentIntentId && stripe) {
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      if (paymentIntent.status === 'canceled' || paymentIntent.status === 'requires_payment_method') return 'failed';
+    } catch (error: any) {
+      console.warn(`Could not retrieve payment intent ${paymentIntentId} for session ${session.id}: ${error.message}`);
+    }
+  }
+  return 'payment-pending';
+};
+
+export async function getCheckoutSessionStatusAction(
+  sessionId: string,
+  idToken: string | null
+): Promise<CheckoutSessionStatusResult> {
+  const userId = await verifyCallerUid(idToken);
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  if (!isStripeEnabled || !stripe) {
+    return { success: false, message: 'Stripe is not configured on the server. Cannot verify the payment.' };
+  }
+
+  let session: Stripe.Checkout.Session;
+  try {
+    session = await stripe.checkout.sessions.retrieve(sessionId);
+  } catch (error: any) {
+    console.error(`Stripe session retrieval error for ${sessionId}:`, error);
+    return { success: false, message: 'This checkout session could not be found.' };
+  }
+
+  // Session ids appear in URLs; never report on someone else's checkout.
+  if ((session.client_reference_id || session.metadata?.userId) !== userId) {
+    return { success: false, message: 'This checkout session could not be found.' };
+  }
+
+  try {
+    const state = await getSessionState(userId, session);
+    const personaQuota = getEffectivePersonaQuota(await getUserEntitlements(userId));
+    return {
+      success: true,
+      message: `Checkout session is ${state}.`,
+      state,
+      product: session.mode === 'subscription' ? 'pro-subscription' : 'persona-slot',
+      personaQuota,
+    };
+  } catch (error: any) {
+    console.error(`Error checking fulfillment for session ${sessionId}:`, error);
+    return { success: false, message: 'Could not check the status of this payment. Please try again.' };
+  }
+}
@@ -0,0 +1,103 @@
+// src/app/api/chat/stream/route.ts
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { GenkitError } from 'genkit';
+import { GenerateResponseInputSchema, generateResponseStreamFlow } from '@/ai/flows/generate-response-stream';
+import { assertPersonaAvailable, getAuthenticatedFlowContext, type AuthenticatedFlowContext } from '@/ai/auth';
+import { reserveAiUsage, recordAiUsage } from '@/ai/usage';
+
+const HTTP_STATUS_BY_FLOW_ERROR: Partial<Record<GenkitError['status'], number>> = {
+  UNAUTHENTICATED: 401,
+  PERMISSION_DENIED: 403,
+  NOT_FOUND: 404,
+  RESOURCE_EXHAUSTED: 429,
+};
+
+const toFlowErrorResponse = (error: unknown): NextResponse | null =>
+  error instanceof GenkitError && HTTP_STATUS_BY_FLOW_ERROR[error.status]
+    ? NextResponse.json({ error: error.originalMessage }, { status: HTTP_STATUS_BY_FLOW_ERROR[error.status] })
+    : null;
+
+// Streams a persona reply as plain UTF-8 text chunks. The client saves the final message once the stream ends.
+export async function POST(req: NextRequest) {
+  const idToken = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || null;
+  let context: AuthenticatedFlowContext;
+  try {
+    context = await getAuthenticatedFlowContext(idToken);
+  } catch (error: any) {
+    const response = toFlowErrorResponse(error);
+    if (response) return response;
+    throw error;
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON.' }, { status: 400 });
+  }
+
+  const parsedInput = GenerateResponseInputSchema.safeParse(body);
+  if (!parsedInput.success) {
+    return NextResponse.json({ error: `Invalid input: ${parsedInput.error.message}` }, { status: 400 });
+  }
+
+  // Locked personas are rejected before any usage is reserved against the caps.
+  try {
+    await assertPersonaAvailable(context, parsedInput.data.personaId);
+    await reserveAiUsage(context.userId);
+  } catch (error: any) {
+    const response = toFlowErrorResponse(error);
+    if (response) return response;
+    throw error;
+  }
+
+  const startedAt = Date.now();
+  const abortController = new AbortController();
+  const { stream, output } = generateResponseStreamFlow.stream(parsedInput.data, { context, abortSignal: abortController.signal });
+  // Usage is recorded once generation settles, including a reply cut short by Stop (whatever the model produced
+  // before the abort is metered). This also keeps a rejected `output` from going unhandled when we never await it.
+  output.then(
+    () => false,
+    () => true
+  ).then((failed) =>
+    recordAiUsage(context.userId, 'generateResponseStreamFlow', {
+      ...context.usage,
+      latencyMs: Date.now() - startedAt,
+      failed,
+    })
+  );
+
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const responseStream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const chunk of stream) {
+          if (cancelled) break;
+          controller.enqueue(encoder.encode(chunk));
+        }
+        if (!cancelled) {
+          await output;
+          controller.close();
+        }
+      } catch (error: any) {
+        console.error('Chat stream: generation failed:', error);
+        if (!cancelled) controller.error(error);
+      }
+    },
+    cancel() {
+      // The client pressed Stop (or navigated away). Abort the model call; the partial text is kept client-side.
+      cancelled = true;
+      abortController.abort();
+    },
+  });
+
+  return new Response(responseStream, {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -0,0 +1,30 @@
+// src/app/api/cron/purge-trash/route.ts
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { purgeExpiredTrashedPersonasForAllUsers } from '@/lib/admin-personas';
+
+const isAuthorizedCronRequest = (req: NextRequest, cronSecret: string): boolean => {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const expected = Buffer.from(cronSecret);
+  const received = Buffer.from(token);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+// Purges trashed personas past their restore window for every user. Called daily by Cloud Scheduler with
+// `Authorization: Bearer $CRON_SECRET` (see docs/managing-secrets.md).
+export async function POST(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('Trash purge: CRON_SECRET is not configured in the server environment.');
+    return NextResponse.json({ error: 'Scheduled jobs are not configured.' }, { status: 503 });
+  }
+  if (!isAuthorizedCronRequest(req, cronSecret)) {
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  const { purged, failedUsers } = await purgeExpiredTrashedPersonasForAllUsers();
+  console.log(`Trash purge: purged ${purged} persona(s); ${failedUsers} user(s) failed and will be retried.`);
+  // A non-2xx status makes Cloud Scheduler retry the job.
+  return NextResponse.json({ purged, failedUsers }, { status: failedUsers > 0 ? 500 : 200 });
+}
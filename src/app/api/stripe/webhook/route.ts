@@ -4,8 +4,11 @@ import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { stripe, isStripeEnabled } from '@/lib/stripe';
-import { updateUserProfileInDB, getUserProfileById } from '@/lib/store';
-import { FREE_PERSONA_LIMIT, PERSONAS_PER_PURCHASE } from '@/lib/constants';
+import { hasUserProfile } from '@/lib/entitlements';
+import { syncSubscriptionEntitlement } from '@/lib/subscriptions';
+import { fulfillPurchase, recordPendingPurchase, revokePurchaseByPaymentIntent, type PurchaseDetails } from '@/lib/purchases';
+import type { PurchaseRevocationReason } from '@/lib/types';
+import { PERSONAS_PER_PURCHASE, STRIPE_CURRENCY } from '@/lib/constants';
 
 export async function POST(req: NextRequest) {
   const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
@@ -41,26 +44,38 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: `Webhook error: ${err.message}` }, { status: 400 });
   }
 
-  // Handle the 'checkout.session.completed' event
-  if (event.type === 'checkout.session.completed') {
+  // A completed checkout is fulfilled once its payment has cleared: immediately for cards,
+  // or on 'checkout.session.async_payment_succeeded' for delayed payment methods.
+  if (event.type === 'checkout.session.completed' || event.type === 'checkout.session.async_payment_succeeded') {
     const session = event.data.object as Stripe.Checkout.Session;
 
     const userId = session.client_reference_id || session.metadata?.userId;
 
     if (!userId) {
-      console.error('Stripe Webhook: checkout.session.completed received without userId in client_reference_id or metadata.', session);
+      console.error(`Stripe Webhook: ${event.type} received without userId in client_reference_id or metadata.`, session);
       return NextResponse.json({ error: 'User ID not found in session.' }, { status: 400 });
     }
 
-    console.log(`Stripe Webhook: Payment successful for user ${userId}, session ${session.id}`);
+    console.log(`Stripe Webhook: ${event.type} for user ${userId}, session ${session.id} (payment status: ${session.payment_status})`);
 
     try {
-      const userProfile = await getUserProfileById(userId);
-      if (!userProfile) {
+      if (!(await hasUserProfile(userId))) {
         console.error(`Stripe Webhook: User profile for userId ${userId} not found during payment fulfillment for session ${session.id}. Stripe will retry.`);
         return NextResponse.json({ error: 'User profile not found, fulfillment postponed. Stripe will retry.' }, { status: 500 });
       }
 
+      if (session.mode === 'subscription') {
+        // Pro is granted from the subscription itself; later customer.subscription.* events keep it current.
+        const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription?.id;
+        if (!subscriptionId) {
+          console.error(`Stripe Webhook: Subscription checkout ${session.id} completed without a subscription.`);
+          return NextResponse.json({ error: 'Subscription not found in session.' }, { status: 400 });
+        }
+        const result = await syncSubscriptionEntitlement(subscriptionId, 'stripe-webhook', userId);
+        console.log(`Stripe Webhook: Subscription ${subscriptionId} for user ${userId} is ${result?.status}.`);
+        return NextResponse.json({ received: true });
+      }
+
       const purchasedUnitsString = session.metadata?.purchaseUnits;
       let purchasedUnits = PERSONAS_PER_PURCHASE; 
       
@@ -75,16 +90,73 @@ export async function POST(req: NextRequest) {
         console.warn(`Stripe Webhook: purchaseUnits missing in metadata for session ${session.id}. Defaulting to ${PERSONAS_PER_PURCHASE}.`);
       }
 
-      const currentQuota = userProfile.personaQuota === undefined ? FREE_PERSONA_LIMIT : userProfile.personaQuota;
-      const newQuota = currentQuota + purchasedUnits;
-      
-      await updateUserProfileInDB(userId, { personaQuota: newQuota });
-      console.log(`Stripe Webhook: User ${userId} persona quota updated to ${newQuota}.`);
+      const purchase: PurchaseDetails = {
+        userId,
+        sessionId: session.id,
+        amount: session.amount_total ?? 0,
+        currency: session.currency ?? STRIPE_CURRENCY,
+        units: purchasedUnits,
+        paymentIntentId: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id,
+      };
+
+      if (session.payment_status !== 'paid') {
+        await recordPendingPurchase(purchase);
+        console.log(`Stripe Webhook: Session ${session.id} recorded as pending until its payment clears.`);
+      } else {
+        const { personaQuota, duplicate } = await fulfillPurchase(purchase, 'stripe-webhook');
+        if (duplicate) {
+          console.log(`Stripe Webhook: Session ${session.id} was already fulfilled; ignoring duplicate event ${event.id}.`);
+        } else {
+          console.log(`Stripe Webhook: User ${userId} persona quota updated to ${personaQuota}.`);
+        }
+      }
 
     } catch (dbError: any) {
       console.error(`Stripe Webhook: Database error fulfilling purchase for user ${userId} in session ${session.id}: ${dbError.message}`);
       return NextResponse.json({ error: 'Database error fulfilling purchase.' }, { status: 500 });
     }
+  } else if (event.type === 'charge.refunded' || event.type === 'charge.dispute.created') {
+    // Refunds and disputes take back the slots the original purchase granted.
+    const reason: PurchaseRevocationReason = event.type === 'charge.refunded' ? 'refunded' : 'disputed';
+    const refundedOrDisputed = event.data.object as Stripe.Charge | Stripe.Dispute;
+    const paymentIntent = refundedOrDisputed.payment_intent;
+    const paymentIntentId = typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id;
+
+    if (event.type === 'charge.refunded' && !(refundedOrDisputed as Stripe.Charge).refunded) {
+      // Partial refunds leave the purchase (and its slots) in place.
+      console.log(`Stripe Webhook: Charge ${refundedOrDisputed.id} was partially refunded; slots are kept.`);
+    } else if (!paymentIntentId) {
+      console.warn(`Stripe Webhook: ${event.type} for ${refundedOrDisputed.id} has no payment intent; nothing to revoke.`);
+    } else {
+      try {
+        const result = await revokePurchaseByPaymentIntent(paymentIntentId, reason);
+        if (!result.found) {
+          console.warn(`Stripe Webhook: No purchase found for payment intent ${paymentIntentId} (${event.type}); nothing to revoke.`);
+        } else if (result.revokedUnits === 0) {
+          console.log(`Stripe Webhook: Purchase ${result.sessionId} had no slots left to revoke; ignoring ${event.type} event ${event.id}.`);
+        } else {
+          console.log(`Stripe Webhook: Revoked ${result.revokedUnits} slot(s) from user ${result.userId} (${reason}). Persona quota is now ${result.personaQuota}.`);
+        }
+      } catch (dbError: any) {
+        console.error(`Stripe Webhook: Database error revoking purchase for payment intent ${paymentIntentId}: ${dbError.message}`);
+        return NextResponse.json({ error: 'Database error revoking purchase.' }, { status: 500 });
+      }
+    }
+  } else if (event.type.startsWith('customer.subscription.')) {
+    // Created, updated (renewals, plan changes, cancel_at_period_end), paused/resumed and deleted (access ended).
+    const subscription = event.data.object as Stripe.Subscription;
+    try {
+      const result = await syncSubscriptionEntitlement(subscription, 'stripe-webhook');
+      if (!result) {
+        // A subscription created outside our checkout, or its checkout event has not been handled yet (it links the user).
+        console.warn(`Stripe Webhook: No user found for subscription ${subscription.id} (${event.type}); ignoring.`);
+      } else {
+        console.log(`Stripe Webhook: Subscription ${subscription.id} for user ${result.userId} is ${result.status} (${event.type}).`);
+      }
+    } catch (syncError: any) {
+      console.error(`Stripe Webhook: Error syncing subscription ${subscription.id} (${event.type}): ${syncError.message}`);
+      return NextResponse.json({ error: 'Error syncing subscription.' }, { status: 500 });
+    }
   } else if (event.type === 'payment_intent.succeeded') {
     const paymentIntent = event.data.object as Stripe.PaymentIntent;
     console.log(`Stripe Webhook: PaymentIntent ${paymentIntent.id} succeeded.`);
@@ -1,14 +1,16 @@
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { PlusCircle, Search, Users, Loader2, Folder } from 'lucide-react';
 import PersonaCard from '@/components/personas/PersonaCard';
+import ImportPersonaButton from '@/components/personas/ImportPersonaButton';
+import PersonaTrash from '@/components/personas/PersonaTrash';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import type { Persona } from '@/lib/types';
-import { getPersonas, deletePersona as deletePersonaFromStore } from '@/lib/store';
+import { getPersonas, trashPersona } from '@/lib/store';
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from '@/hooks/useAuth';
 import { useRouter } from 'next/navigation';
@@ -19,13 +21,16 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Badge } from '@/components/ui/badge';
+import SoftLockBanner from '@/components/billing/SoftLockBanner';
+import { getLockedPersonaIds } from '@/lib/persona-locks';
+import { FREE_PERSONA_LIMIT, PERSONA_TRASH_RETENTION_DAYS } from '@/lib/constants';
 
 interface GroupedPersonas {
   [category: string]: Persona[];
 }
 
 export default function DashboardPage() {
-  const { user, loadingAuth, userId } = useAuth();
+  const { user, loadingAuth, userId, userProfile } = useAuth();
   const router = useRouter();
   const [personas, setPersonas] = useState<Persona[]>([]);
   const [groupedPersonas, setGroupedPersonas] = useState<GroupedPersonas>({});
@@ -94,15 +99,18 @@ export default function DashboardPage() {
     setGroupedPersonas(groupPersonasByCategory(personas, searchTerm));
   }, [searchTerm, personas]);
 
+  const personaQuota = userProfile?.personaQuota ?? FREE_PERSONA_LIMIT;
+  const lockedPersonaIds = useMemo(() => getLockedPersonaIds(personas, personaQuota), [personas, personaQuota]);
+
 
   const handleDeletePersona = async (personaId: string) => {
     if (!userId) return;
     try {
-      await deletePersonaFromStore(userId, personaId);
+      await trashPersona(userId, personaId);
       // Personas state will be updated by the onValue listener from getPersonas
       toast({
-        title: "Persona Deleted",
-        description: "The persona has been successfully deleted.",
+        title: "Persona Moved to Trash",
+        description: `You can restore it from the trash for ${PERSONA_TRASH_RETENTION_DAYS} days.`,
       });
     } catch (error) {
       console.error("Error deleting persona:", error);
@@ -141,13 +149,19 @@ export default function DashboardPage() {
             <Users className="h-8 w-8 text-primary" />
             <h1 className="text-3xl font-bold">My Personas</h1>
           </div>
-          <Link href="/personas/new" passHref>
-            <Button>
-              <PlusCircle className="mr-2 h-5 w-5" /> Create New Persona
-            </Button>
-          </Link>
+          <div className="flex flex-wrap gap-2">
+            <PersonaTrash />
+            <ImportPersonaButton />
+            <Link href="/personas/new" passHref>
+              <Button>
+                <PlusCircle className="mr-2 h-5 w-5" /> Create New Persona
+              </Button>
+            </Link>
+          </div>
         </header>
 
+        <SoftLockBanner personaCount={personas.length} personaQuota={personaQuota} />
+
         <div className="mb-6">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
@@ -176,7 +190,12 @@ export default function DashboardPage() {
                   {personaList.length > 0 ? (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 pt-4">
                       {personaList.map((persona) => (
-                        <PersonaCard key={persona.id} persona={persona} onDelete={handleDeletePersona} />
+                        <PersonaCard
+                          key={persona.id}
+                          persona={persona}
+                          onDelete={handleDeletePersona}
+                          isLocked={lockedPersonaIds.has(persona.id)}
+                        />
                       ))}
                     </div>
                   ) : (
@@ -1,44 +1,129 @@
 
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { useRouter, useSearchParams } from 'next/navigation';
-import { CheckCircle, Home } from 'lucide-react';
+import { useSearchParams } from 'next/navigation';
+import { CheckCircle, Clock, Home, Loader2, XCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { useAuth } from '@/hooks/useAuth'; // To potentially refresh profile or show user info
+import { useAuth } from '@/hooks/useAuth';
+import { getCheckoutSessionStatusAction } from '@/app/actions/stripe/get-checkout-session-status.action';
+import type { CheckoutProduct, CheckoutSessionState } from '@/lib/types';
+
+// The webhook usually lands within seconds; after this the page stops polling and explains the delay.
+const STATUS_POLL_INTERVAL_MS = 2000;
+const STATUS_POLL_MAX_ATTEMPTS = 30;
+
+type PageState = CheckoutSessionState | 'checking' | 'error';
+
+interface StatusDetails {
+  product?: CheckoutProduct;
+  personaQuota?: number;
+  message?: string;
+}
 
 export default function PaymentSuccessPage() {
-  const router = useRouter();
   const searchParams = useSearchParams();
   const sessionId = searchParams.get('session_id');
-  const { userProfile, loadingAuth } = useAuth();
+  const { user, loadingAuth, getIdToken } = useAuth();
+  const [state, setState] = useState<PageState>('checking');
+  const [details, setDetails] = useState<StatusDetails>({});
+  const [gaveUpPolling, setGaveUpPolling] = useState(false);
 
   useEffect(() => {
-    if (sessionId) {
-      console.log('Stripe Checkout Session ID:', sessionId);
-      // Here you might:
-      // 1. Verify the session status with your backend if needed (though webhook is preferred for fulfillment)
-      // 2. Trigger a refresh of user data if quota updates are not immediate via DB listeners.
-      // For this app, AuthContext's listener on Firebase DB should update the profile.
+    if (loadingAuth) return;
+    if (!sessionId || !user) {
+      setState('error');
+      setDetails({ message: !sessionId ? 'No checkout session was specified.' : 'Please log in to see your payment status.' });
+      return;
     }
-  }, [sessionId]);
+
+    let isActive = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const checkStatus = async (attempt: number) => {
+      let result: Awaited<ReturnType<typeof getCheckoutSessionStatusAction>>;
+      try {
+        result = await getCheckoutSessionStatusAction(sessionId, await getIdToken());
+      } catch (error) {
+        // A network or server failure: stop polling rather than retrying blindly. The payment itself is unaffected.
+        console.error('Error checking checkout session status:', error);
+        if (!isActive) return;
+        setState('error');
+        setDetails({ message: 'Could not reach the server to check your payment. Refresh the page to try again; there is no need to pay again.' });
+        return;
+      }
+      if (!isActive) return;
+
+      if (!result.success || !result.state) {
+        setState('error');
+        setDetails({ message: result.message });
+        return;
+      }
+
+      setState(result.state);
+      setDetails({ product: result.product, personaQuota: result.personaQuota });
+      if (result.state === 'awaiting-fulfillment' || result.state === 'payment-pending') {
+        if (attempt + 1 < STATUS_POLL_MAX_ATTEMPTS) {
+          timer = setTimeout(() => checkStatus(attempt + 1), STATUS_POLL_INTERVAL_MS);
+        } else {
+          setGaveUpPolling(true);
+        }
+      }
+    };
+
+    checkStatus(0);
+    return () => {
+      isActive = false;
+      if (timer) clearTimeout(timer);
+    };
+  }, [sessionId, user, loadingAuth, getIdToken]);
+
+  const purchaseLabel = details.product === 'pro-subscription' ? 'Pro subscription' : 'persona slot purchase';
+
+  let icon = <Loader2 className="h-16 w-16 text-muted-foreground animate-spin mb-4" />;
+  let title = 'Confirming Your Payment...';
+  let description = 'Checking the payment with Stripe.';
+
+  if (state === 'fulfilled') {
+    icon = <CheckCircle className="h-16 w-16 text-green-500 mb-4" />;
+    title = details.product === 'pro-subscription' ? 'Welcome to Pro!' : 'Payment Successful!';
+    description = `Thank you for your ${purchaseLabel}. Your persona quota is now ${details.personaQuota}.`;
+  } else if (state === 'awaiting-fulfillment') {
+    icon = gaveUpPolling ? <Clock className="h-16 w-16 text-amber-500 mb-4" /> : icon;
+    title = 'Payment Received';
+    description = gaveUpPolling
+      ? 'Your payment went through, but your quota has not been updated yet. It will update automatically shortly; there is no need to pay again.'
+      : 'Your payment went through. Updating your persona quota...';
+  } else if (state === 'payment-pending') {
+    icon = <Clock className="h-16 w-16 text-amber-500 mb-4" />;
+    title = 'Payment Processing';
+    description = 'Your payment method takes a little longer to confirm. Your quota will update automatically once the payment clears.';
+  } else if (state === 'failed') {
+    icon = <XCircle className="h-16 w-16 text-destructive mb-4" />;
+    title = 'Payment Not Completed';
+    description = 'This checkout was not paid, so your persona quota has not been changed.';
+  } else if (state === 'error') {
+    icon = <XCircle className="h-16 w-16 text-destructive mb-4" />;
+    title = 'Could Not Verify Payment';
+    description = details.message || 'Something went wrong while checking your payment.';
+  }
 
   return (
     <div className="flex min-h-screen flex-col items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md shadow-xl">
         <CardHeader className="items-center text-center">
-          <CheckCircle className="h-16 w-16 text-green-500 mb-4" />
-          <CardTitle className="text-2xl font-bold">Payment Successful!</CardTitle>
-          <CardDescription>
-            Thank you for your purchase. Your persona quota has been updated.
-          </CardDescription>
+          {icon}
+          <CardTitle className="text-2xl font-bold">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
         </CardHeader>
         <CardContent className="text-center">
-          <p className="text-muted-foreground">
-            You can now create more personas.
-          </p>
+          {state === 'fulfilled' && (
+            <p className="text-muted-foreground">
+              You can now create more personas.
+            </p>
+          )}
           {sessionId && (
             <p className="text-xs text-muted-foreground mt-2">
               Session ID: {sessionId.substring(0, 20)}...
@@ -46,6 +131,13 @@ export default function PaymentSuccessPage() {
           )}
         </CardContent>
         <CardFooter className="flex flex-col gap-3 pt-6">
+          {state === 'failed' && (
+            <Link href="/personas/new" passHref className="w-full">
+              <Button className="w-full" size="lg" variant="outline">
+                Try Again
+              </Button>
+            </Link>
+          )}
           <Link href="/" passHref className="w-full">
             <Button className="w-full" size="lg">
               <Home className="mr-2 h-5 w-5" /> Go to Dashboard
@@ -6,20 +6,23 @@ import { useParams, useRouter } from 'next/navigation';
 import PersonaProfileDisplay from '@/components/personas/PersonaProfileDisplay';
 import ChatInterface from '@/components/chat/ChatInterface';
 import type { Persona } from '@/lib/types';
-import { getPersonaById, savePersona } from '@/lib/store'; // Updated functions
+import { getPersonaById, getPersonaCreationRank, savePersona } from '@/lib/store'; // Updated functions
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertTriangle, Loader2, Bot as BotIcon } from 'lucide-react'; // Renamed Bot to BotIcon
+import { AlertTriangle, Loader2, Bot as BotIcon, Lock } from 'lucide-react'; // Renamed Bot to BotIcon
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
+import { isPersonaLockedAtRank } from '@/lib/persona-locks';
+import { FREE_PERSONA_LIMIT } from '@/lib/constants';
 
 
 export default function PersonaPage() {
-  const { user, loadingAuth, userId } = useAuth();
+  const { user, loadingAuth, userId, userProfile } = useAuth();
   const router = useRouter();
   const params = useParams();
   
   const [persona, setPersona] = useState<Persona | null | undefined>(undefined);
   const [pageLoading, setPageLoading] = useState(true);
+  const [creationRank, setCreationRank] = useState(0);
 
   const personaIdParams = Array.isArray(params.id) ? params.id[0] : params.id;
 
@@ -35,6 +38,7 @@ export default function PersonaPage() {
         setPageLoading(true);
         const fetchedPersona = await getPersonaById(userId, personaIdParams);
         setPersona(fetchedPersona || null); 
+        setCreationRank(fetchedPersona ? await getPersonaCreationRank(userId, fetchedPersona) : 0);
         setPageLoading(false);
       } else if (!loadingAuth && !user) {
         setPageLoading(false);
@@ -95,6 +99,7 @@ export default function PersonaPage() {
   }
 
   const isChatInterfaceDisabled = persona.originType === 'chat-derived' && !persona.personaDescription;
+  const isLocked = isPersonaLockedAtRank(creationRank, userProfile?.personaQuota ?? FREE_PERSONA_LIMIT);
 
   return (
     <div className="h-[calc(100vh-var(--header-height,0px)-2rem)] md:h-[calc(100vh-2rem)] grid md:grid-cols-[350px_1fr] lg:grid-cols-[400px_1fr] gap-1 p-0 md:p-1 max-h-screen overflow-hidden">
@@ -107,7 +112,14 @@ export default function PersonaPage() {
         <PersonaProfileDisplay persona={persona} onPersonaUpdate={handlePersonaUpdate} />
       </div>
       <div className="h-full">
-        {isChatInterfaceDisabled ? (
+        {isLocked ? (
+            <div className="flex flex-col items-center justify-center h-full text-center p-4 bg-muted/50 rounded-lg">
+                <Lock className="w-16 h-16 text-muted-foreground mb-4" />
+                <h2 className="text-xl font-semibold mb-2">Persona Locked</h2>
+                <p className="text-muted-foreground mb-4">You have more personas than your quota allows, so this persona is locked. It has not been deleted; delete another persona or buy more slots to unlock it.</p>
+                <Button onClick={() => router.push('/personas/new')}>Buy More Slots</Button>
+            </div>
+        ) : isChatInterfaceDisabled ? (
             <div className="flex flex-col items-center justify-center h-full text-center p-4 bg-muted/50 rounded-lg">
                 <BotIcon className="w-16 h-16 text-muted-foreground mb-4" />
                 <h2 className="text-xl font-semibold mb-2">Practice Persona Not Ready</h2>
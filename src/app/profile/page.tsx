@@ -12,9 +12,14 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import Image from 'next/image'; 
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { FREE_PERSONA_LIMIT } from '@/lib/constants';
+import AiUsageSummary from '@/components/profile/AiUsageSummary';
+import PurchaseHistory from '@/components/billing/PurchaseHistory';
+import SubscriptionSummary from '@/components/billing/SubscriptionSummary';
+import AccountDataSettings from '@/components/profile/AccountDataSettings';
+import { getUserPlan } from '@/lib/plans';
 
 export default function ProfilePage() {
-  const { user, userProfile, loadingAuth, logout, isEmailVerified, resendVerificationEmail } = useAuth();
+  const { user, userProfile, entitlements, loadingAuth, logout, isEmailVerified, resendVerificationEmail } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
@@ -108,6 +113,10 @@ export default function ProfilePage() {
               {userProfile.personaQuota === undefined ? FREE_PERSONA_LIMIT : userProfile.personaQuota} personas
             </p>
           </div>
+          <SubscriptionSummary />
+          <AiUsageSummary userId={userProfile.id} plan={getUserPlan(entitlements)} />
+          <PurchaseHistory userId={userProfile.id} />
+          <AccountDataSettings />
            <div className="space-y-1">
             <p className="text-sm font-medium text-muted-foreground">Joined</p>
             <p className="text-sm">{new Date(userProfile.createdAt).toLocaleDateString()}</p>
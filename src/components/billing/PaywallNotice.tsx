@@ -4,14 +4,15 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { DollarSign, Info, ShoppingCart, Loader2 } from 'lucide-react';
+import { DollarSign, Info, ShoppingCart, Loader2, Sparkles } from 'lucide-react';
 import Link from 'next/link';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { PAID_PERSONA_PRICE_POUNDS, PERSONAS_PER_PURCHASE } from '@/lib/constants';
+import { PAID_PERSONA_PRICE_POUNDS, PERSONAS_PER_PURCHASE, PRO_PLAN_PERSONA_LIMIT, PRO_PLAN_PRICE_POUNDS_MONTHLY } from '@/lib/constants';
+import { hasActiveProSubscription } from '@/lib/plans';
+import type { CheckoutProduct } from '@/lib/types';
 import { createCheckoutSessionAction } from '@/app/actions/stripe/create-checkout-session.action';
-import { isStripeClientEnabled, isStripeEnabled as isStripeServerEnabled } from '@/lib/stripe'; 
-import { loadStripe } from '@stripe/stripe-js';
+import SoftLockBanner from './SoftLockBanner';
 
 interface PaywallNoticeProps {
   currentPersonaCount: number;
@@ -19,14 +20,13 @@ interface PaywallNoticeProps {
 }
 
 export default function PaywallNotice({ currentPersonaCount, currentQuota }: PaywallNoticeProps) {
-  const { userId, userProfile, loadingAuth: authLoading } = useAuth();
+  const { userId, userProfile, entitlements, loadingAuth: authLoading, getIdToken } = useAuth();
   const { toast } = useToast();
-  const [isProcessingPayment, setIsProcessingPayment] = useState(false);
+  const [processingProduct, setProcessingProduct] = useState<CheckoutProduct | null>(null);
+  const isProcessingPayment = processingProduct !== null;
+  const isPro = hasActiveProSubscription(entitlements);
 
-  // Determine if real Stripe flow can be used (both client and server configured)
-  const canUseRealStripe = isStripeClientEnabled() && isStripeServerEnabled;
-
-  const handlePayment = async () => {
+  const handlePayment = async (product: CheckoutProduct) => {
     if (!userId || !userProfile) {
       toast({
         title: "Error",
@@ -36,67 +36,23 @@ export default function PaywallNotice({ currentPersonaCount, currentQuota }: Pay
       return;
     }
 
-    setIsProcessingPayment(true);
+    setProcessingProduct(product);
     
-    const result = await createCheckoutSessionAction(userId);
+    const result = await createCheckoutSessionAction(await getIdToken(), product);
 
-    if (result.success) {
-      if (canUseRealStripe && result.redirectUrl && result.sessionId) {
-        // Real Stripe: Redirect to Checkout
-        const stripePublishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
-        // This check is technically redundant if canUseRealStripe is true, but good for safety.
-        if (!stripePublishableKey) {
-          toast({
-            title: "Configuration Error",
-            description: "Stripe publishable key is not configured. Cannot redirect to payment.",
-            variant: "destructive",
-          });
-          setIsProcessingPayment(false);
-          return;
-        }
-        try {
-          const stripe = await loadStripe(stripePublishableKey);
-          if (!stripe) {
-            throw new Error("Stripe.js failed to load.");
-          }
-          const { error } = await stripe.redirectToCheckout({ sessionId: result.sessionId });
-          if (error) {
-            throw error;
-          }
-          // Redirect will happen, no further processing here if successful.
-        } catch (stripeError: any) {
-          console.error("Stripe redirection error:", stripeError);
-          toast({
-            title: "Payment Error",
-            description: stripeError.message || "Could not redirect to Stripe Checkout. Please try again.",
-            variant: "destructive",
-          });
-          setIsProcessingPayment(false);
-        }
-      } else if (result.newQuota !== undefined) { 
-        // Simulation: Show success toast (server action already updated quota)
-        // This branch is hit if canUseRealStripe is false OR if the server action decided to simulate.
-        toast({
-          title: `Payment Processed ${!canUseRealStripe ? "(Simulated)" : ""}`,
-          description: result.message,
-        });
-        setIsProcessingPayment(false);
-      } else {
-         toast({
-          title: "Notice",
-          description: result.message || "Payment status unclear.",
-          variant: "default",
-        });
-        setIsProcessingPayment(false);
-      }
-    } else {
-      toast({
-        title: "Payment Failed",
-        description: result.message || "An unexpected error occurred during payment processing.",
-        variant: "destructive",
-      });
-      setIsProcessingPayment(false);
+    if (result.success && result.redirectUrl) {
+      // Hand over to the hosted Checkout page (Stripe, or the local stand-in in development).
+      // The quota is credited by the webhook once the checkout completes.
+      window.location.assign(result.redirectUrl);
+      return;
     }
+
+    toast({
+      title: "Payment Failed",
+      description: result.message || "An unexpected error occurred during payment processing.",
+      variant: "destructive",
+    });
+    setProcessingProduct(null);
   };
 
   return (
@@ -112,9 +68,11 @@ export default function PaywallNotice({ currentPersonaCount, currentQuota }: Pay
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <SoftLockBanner personaCount={currentPersonaCount} personaQuota={currentQuota} showUpgradeLink={false} />
           <p className="text-center text-muted-foreground">
-            To create additional personas, please purchase more slots. 
-            Each purchase grants {PERSONAS_PER_PURCHASE} additional persona slot(s).
+            {isPro
+              ? `To create additional personas, please purchase more slots. Each purchase grants ${PERSONAS_PER_PURCHASE} additional persona slot(s) on top of your Pro plan.`
+              : `To create additional personas, buy extra slots or subscribe to Pro. Each purchase grants ${PERSONAS_PER_PURCHASE} additional persona slot(s).`}
           </p>
           <div className="flex items-center justify-center p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-700 rounded-lg">
             <DollarSign className="h-8 w-8 text-green-600 dark:text-green-400 mr-3" />
@@ -122,37 +80,49 @@ export default function PaywallNotice({ currentPersonaCount, currentQuota }: Pay
               <p className="font-semibold text-lg text-green-700 dark:text-green-300">
                 Unlock {PERSONAS_PER_PURCHASE} Persona Slot for £{PAID_PERSONA_PRICE_POUNDS}
               </p>
-              <p className="text-xs text-green-500 dark:text-green-500">One-time payment{canUseRealStripe ? "" : " (Simulated)"}</p>
+              <p className="text-xs text-green-500 dark:text-green-500">One-time payment</p>
             </div>
           </div>
-           <p className="text-xs text-center text-muted-foreground/80 mt-2">
+          {!isPro && (
+            <div className="flex items-center justify-center p-4 bg-primary/5 border border-primary/20 rounded-lg">
+              <Sparkles className="h-8 w-8 text-primary mr-3" />
+              <div>
+                <p className="font-semibold text-lg text-primary">
+                  Go Pro for £{PRO_PLAN_PRICE_POUNDS_MONTHLY}/month
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Up to {PRO_PLAN_PERSONA_LIMIT} personas plus higher AI usage limits. Cancel anytime.
+                </p>
+              </div>
+            </div>
+          )}
+          <p className="text-xs text-center text-muted-foreground/80 mt-2">
             <Info className="inline h-3 w-3 mr-1" />
-            {canUseRealStripe 
-              ? "You will be redirected to Stripe to complete your purchase securely." 
-              : "Stripe is not fully configured for real payments. This will be a simulated payment flow. Your persona quota will be updated for demo purposes without actual charges."
-            }
+            You will be redirected to Stripe to complete your purchase securely.
           </p>
-           {!isStripeServerEnabled && ( // Show if server-side Stripe is not set up
-             <p className="text-xs text-center text-red-500 dark:text-red-400 mt-1">
-                Warning: Server-side Stripe (secret key) is not configured. Webhooks and other server operations will fail or simulate.
-             </p>
-           )}
-            {!isStripeClientEnabled() && isStripeServerEnabled && ( // Show if client-side is not set up but server is
-             <p className="text-xs text-center text-red-500 dark:text-red-400 mt-1">
-                Warning: Client-side Stripe (publishable key) is not configured. Redirect to checkout will fail.
-             </p>
-           )}
         </CardContent>
         <CardFooter className="flex flex-col gap-3 pt-6">
           <Button 
             className="w-full" 
             size="lg" 
-            onClick={handlePayment} 
+            onClick={() => handlePayment('persona-slot')} 
             disabled={authLoading || isProcessingPayment}
           >
-            {isProcessingPayment ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <ShoppingCart className="mr-2 h-5 w-5" />}
-            {canUseRealStripe ? `Pay £${PAID_PERSONA_PRICE_POUNDS} via Stripe` : `Pay £${PAID_PERSONA_PRICE_POUNDS} (Simulated)`}
+            {processingProduct === 'persona-slot' ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <ShoppingCart className="mr-2 h-5 w-5" />}
+            Pay £{PAID_PERSONA_PRICE_POUNDS} via Stripe
           </Button>
+          {!isPro && (
+            <Button
+              className="w-full"
+              size="lg"
+              variant="secondary"
+              onClick={() => handlePayment('pro-subscription')}
+              disabled={authLoading || isProcessingPayment}
+            >
+              {processingProduct === 'pro-subscription' ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Sparkles className="mr-2 h-5 w-5" />}
+              Subscribe to Pro for £{PRO_PLAN_PRICE_POUNDS_MONTHLY}/month
+            </Button>
+          )}
           <Link href="/" passHref className="w-full">
             <Button variant="outline" className="w-full">
               Back to Dashboard
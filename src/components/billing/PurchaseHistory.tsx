@@ -0,0 +1,70 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Receipt } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getPurchaseHistory } from '@/lib/store';
+import type { PurchaseRecord } from '@/lib/types';
+
+interface PurchaseHistoryProps {
+  userId: string;
+}
+
+// Amounts are stored in the currency's minor unit (e.g. pence), as Stripe reports them.
+const formatAmount = (purchase: PurchaseRecord): string =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: purchase.currency.toUpperCase() }).format(purchase.amount / 100);
+
+export default function PurchaseHistory({ userId }: PurchaseHistoryProps) {
+  const [purchases, setPurchases] = useState<PurchaseRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isActive = true;
+    setIsLoading(true);
+    getPurchaseHistory(userId).then((history) => {
+      if (!isActive) return;
+      setPurchases(history);
+      setIsLoading(false);
+    });
+    return () => { isActive = false; };
+  }, [userId]);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+        <Receipt className="h-4 w-4" /> Purchase History
+      </p>
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : purchases.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No purchases yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Slots</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead className="text-right">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {purchases.map((purchase) => (
+              <TableRow key={purchase.sessionId}>
+                <TableCell>{new Date(purchase.createdAt).toLocaleDateString()}</TableCell>
+                <TableCell>+{purchase.units}</TableCell>
+                <TableCell>{formatAmount(purchase)}</TableCell>
+                <TableCell className="text-right">
+                  <Badge variant={purchase.status === 'fulfilled' ? 'secondary' : 'outline'} className="capitalize">
+                    {purchase.status}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Lock } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useAuth } from '@/hooks/useAuth';
+import { subscribeToUserEntitlements } from '@/lib/store';
+import type { PurchaseRevocation, SubscriptionEntitlement } from '@/lib/types';
+import { hasActiveProSubscription } from '@/lib/plans';
+
+interface SoftLockBannerProps {
+  personaCount: number;
+  personaQuota: number;
+  showUpgradeLink?: boolean;
+}
+
+const REVOCATION_REASON_TEXT: Record<PurchaseRevocation['reason'], string> = {
+  refunded: 'a purchase was refunded',
+  disputed: 'a payment was disputed',
+};
+
+// Explains why some personas are locked. Renders nothing while the user is within their quota.
+export default function SoftLockBanner({ personaCount, personaQuota, showUpgradeLink = true }: SoftLockBannerProps) {
+  const { userId } = useAuth();
+  const [lastRevocation, setLastRevocation] = useState<PurchaseRevocation | null>(null);
+  const [endedSubscription, setEndedSubscription] = useState<SubscriptionEntitlement | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToUserEntitlements(userId, (entitlements) => {
+      setLastRevocation(entitlements?.lastRevocation ?? null);
+      setEndedSubscription(entitlements?.subscription && !hasActiveProSubscription(entitlements) ? entitlements.subscription : null);
+    });
+  }, [userId]);
+
+  const lockedCount = personaCount - personaQuota;
+  if (lockedCount <= 0) return null;
+
+  return (
+    <Alert variant="destructive" className="mb-6">
+      <Lock className="h-4 w-4" />
+      <AlertTitle>{lockedCount} persona{lockedCount === 1 ? ' is' : 's are'} locked</AlertTitle>
+      <AlertDescription>
+        {endedSubscription
+          ? `Your Pro subscription ended, so your persona quota is back to ${personaQuota}.`
+          : lastRevocation
+          ? `Your persona quota dropped to ${personaQuota} because ${REVOCATION_REASON_TEXT[lastRevocation.reason]} (${lastRevocation.units} slot${lastRevocation.units === 1 ? '' : 's'} removed on ${new Date(lastRevocation.revokedAt).toLocaleDateString()}).`
+          : `You have ${personaCount} personas but your quota is ${personaQuota}.`}
+        {' '}Your newest personas beyond the quota are locked, not deleted. Delete other personas, buy more slots or subscribe to Pro to unlock them.
+        {showUpgradeLink && (
+          <>
+            {' '}<Link href="/personas/new" className="underline font-medium">Upgrade</Link>
+          </>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CreditCard, Loader2, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { createCustomerPortalSessionAction } from '@/app/actions/stripe/create-customer-portal-session.action';
+import { getUserPlan, hasActiveProSubscription } from '@/lib/plans';
+import { PRO_PLAN_PERSONA_LIMIT } from '@/lib/constants';
+
+// Shows the user's plan and links to the Stripe Customer Portal to manage or cancel the subscription.
+export default function SubscriptionSummary() {
+  const { entitlements, getIdToken } = useAuth();
+  const { toast } = useToast();
+  const [isOpeningPortal, setIsOpeningPortal] = useState(false);
+
+  const plan = getUserPlan(entitlements);
+  const subscription = entitlements?.subscription;
+  const isPro = hasActiveProSubscription(entitlements);
+
+  const handleManageSubscription = async () => {
+    setIsOpeningPortal(true);
+    const result = await createCustomerPortalSessionAction(await getIdToken());
+    if (result.success && result.url) {
+      window.location.href = result.url;
+      return;
+    }
+    toast({
+      title: 'Billing Portal Unavailable',
+      description: result.message,
+      variant: 'destructive',
+    });
+    setIsOpeningPortal(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+        <Sparkles className="h-4 w-4" /> Plan
+      </p>
+      <div className="flex items-center gap-2">
+        <Badge variant={isPro ? 'default' : 'secondary'} className="capitalize">{plan}</Badge>
+        {isPro && subscription && (
+          <span className="text-sm text-muted-foreground">
+            {subscription.cancelAtPeriodEnd ? 'Ends' : 'Renews'} on {new Date(subscription.currentPeriodEnd).toLocaleDateString()}
+            {subscription.status === 'past_due' && ' (payment overdue)'}
+          </span>
+        )}
+      </div>
+      {!isPro && (
+        <p className="text-sm text-muted-foreground">
+          Pro gives you up to {PRO_PLAN_PERSONA_LIMIT} personas and higher AI usage limits.{' '}
+          <Link href="/personas/new" className="underline font-medium">Upgrade</Link>
+        </p>
+      )}
+      {entitlements?.stripeCustomerId && (
+        <Button variant="outline" size="sm" onClick={handleManageSubscription} disabled={isOpeningPortal}>
+          {isOpeningPortal ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CreditCard className="mr-2 h-4 w-4" />}
+          Manage Subscription
+        </Button>
+      )}
+    </div>
+  );
+}
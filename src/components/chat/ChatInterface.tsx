@@ -1,8 +1,8 @@
 
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
-import { Send, Loader2, Trash2, Info } from 'lucide-react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Send, Loader2, Trash2, Info, Square, Pencil, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
 import type { Persona, ChatMessage } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,8 +13,20 @@ import { Card, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { getChatMessages, saveChatMessage, clearChatMessages as clearChatMessagesFromStore } from '@/lib/store';
-import { generateResponse } from '@/ai/flows/generate-response';
+import { usePaginatedMessages } from '@/hooks/use-paginated-messages';
+import {
+  getChatMessages,
+  getOlderChatMessages,
+  saveChatMessage,
+  updateChatMessage,
+  deleteChatMessage,
+  clearChatMessages as clearChatMessagesFromStore,
+  type MessageCursor,
+} from '@/lib/store';
+import { streamPersonaResponse, isAbortError, isUsageLimitError, ChatStreamError } from '@/lib/chat-stream';
+import { buildConversationMemory, type ConversationMemory } from '@/lib/conversation-memory';
+import { addMessageVariant, getMessageVariantIndex, getMessageVariants, selectMessageVariant } from '@/lib/message-variants';
+import { getPersonaStyleExemplars, selectStyleExemplars } from '@/lib/style-exemplars';
 import { formatDistanceToNow } from 'date-fns';
 import Image from 'next/image';
 
@@ -22,36 +34,98 @@ interface ChatInterfaceProps {
   persona: Persona;
 }
 
+const SWIPE_THRESHOLD_PX = 50;
+
 export default function ChatInterface({ persona }: ChatInterfaceProps) {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [userInput, setUserInput] = useState('');
   const [contextInput, setContextInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Text of the AI reply currently streaming in; null when no reply is being generated.
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  // AI message whose reply is being regenerated in place; null when a new reply streams in at the bottom.
+  const [regeneratingMessageId, setRegeneratingMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
   const { toast } = useToast();
-  const { userId } = useAuth();
-  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const { userId, getIdToken } = useAuth();
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const touchStartXRef = useRef<number | null>(null);
 
   useEffect(() => {
-    let unsubscribeMessages: (() => void) | undefined;
-    if (userId) {
-      // Fetch initial messages, limit to 50 for performance.
-      // For "interaction stats", we might need all messages or a different mechanism.
-      unsubscribeMessages = getChatMessages(userId, persona.id, (fetchedMessages) => {
-        setMessages(fetchedMessages);
-      }, 50); // Limit initial load
-    }
-    return () => {
-      if (unsubscribeMessages) {
-        unsubscribeMessages();
-      }
-    };
-  }, [persona.id, userId]);
+    // Stop any in-flight generation when leaving the chat.
+    return () => abortControllerRef.current?.abort();
+  }, [persona.id]);
+
+  // The newest page is live; older pages load as the user scrolls up.
+  const messageSource = useMemo(() => userId ? {
+    key: `${userId}/${persona.id}`,
+    subscribe: (callback: (messages: ChatMessage[]) => void, pageSize: number) => getChatMessages(userId, persona.id, callback, pageSize),
+    fetchOlder: (before: MessageCursor, pageSize: number) => getOlderChatMessages(userId, persona.id, before, pageSize),
+  } : null, [userId, persona.id]);
+  const {
+    messages,
+    isWindowLoaded,
+    hasOlder,
+    isLoadingOlder,
+    topSentinelRef,
+    scrollToBottom,
+    clearOlderMessages,
+    updateOlderMessage,
+  } = usePaginatedMessages(messageSource);
 
   useEffect(() => {
-    if (scrollAreaRef.current) {
-      scrollAreaRef.current.scrollTo({ top: scrollAreaRef.current.scrollHeight, behavior: 'smooth' });
+    // Regenerated replies stream into their own bubble, which may be further up the thread.
+    if (streamingText !== null && !regeneratingMessageId) scrollToBottom();
+  }, [streamingText, regeneratingMessageId, scrollToBottom]);
+
+  // Streams a persona reply into the provisional bubble and resolves with its text. `onText` sees the text received
+  // so far, so callers can keep a partial reply when the stream fails; a reply stopped by the user resolves with it.
+  const streamReply = async (
+    userMessage: Pick<ChatMessage, 'text' | 'context'>,
+    memory: ConversationMemory,
+    idToken: string | null,
+    onText: (text: string) => void
+  ): Promise<string> => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStreamingText('');
+
+    let receivedText = '';
+    try {
+      receivedText = await streamPersonaResponse({
+        personaId: persona.id,
+        persona: persona.personaDescription || `A persona named ${persona.name}`,
+        profile: persona.profile,
+        styleExemplars: selectStyleExemplars(getPersonaStyleExemplars(persona), userMessage.text),
+        input: userMessage.text,
+        context: userMessage.context || 'General conversation',
+        history: memory.history,
+        conversationSummary: memory.conversationSummary,
+      }, {
+        idToken,
+        signal: abortController.signal,
+        onChunk: (text) => {
+          receivedText += text;
+          onText(receivedText);
+          setStreamingText(receivedText);
+        },
+      });
+    } catch (streamError) {
+      // Stopped by the user: keep the partial reply, if any.
+      if (!isAbortError(streamError)) throw streamError;
     }
-  }, [messages]);
+    return receivedText;
+  };
+
+  const showReplyError = (error: unknown) => {
+    toast({
+      title: isUsageLimitError(error) ? 'AI Usage Limit Reached' : 'Error',
+      description: error instanceof ChatStreamError && error.status < 500
+        ? error.message
+        : 'AI failed to respond or save message. Please try again.',
+      variant: 'destructive',
+    });
+  };
 
   const handleSendMessage = async (e?: React.FormEvent<HTMLFormElement>) => {
     e?.preventDefault();
@@ -66,42 +140,166 @@ export default function ChatInterface({ persona }: ChatInterfaceProps) {
     setUserInput('');
     setIsLoading(true);
 
+    let receivedText = '';
     try {
+      const idToken = await getIdToken();
+      // Built before saving the new message so the history holds only the prior turns.
+      const memory = await buildConversationMemory(userId, persona, idToken);
       await saveChatMessage(userId, persona.id, userMessageData);
 
-      const aiResponse = await generateResponse({
-        persona: persona.personaDescription || `A persona named ${persona.name}`,
-        input: userMessageData.text,
-        context: contextInput || 'General conversation',
-      });
+      receivedText = await streamReply(userMessageData, memory, idToken, (text) => { receivedText = text; });
 
-      const aiMessageData: Omit<ChatMessage, 'id' | 'timestamp'> = {
-        sender: 'ai',
-        text: aiResponse?.response ?? "I couldn't generate a response. Please try again.",
-        context: contextInput,
-      };
-      await saveChatMessage(userId, persona.id, aiMessageData);
+      // Hide the provisional bubble in the same render as the saved message appears via the listener.
+      setStreamingText(null);
+      if (receivedText.trim()) {
+        const aiMessageData: Omit<ChatMessage, 'id' | 'timestamp'> = {
+          sender: 'ai',
+          text: receivedText,
+          context: contextInput,
+        };
+        await saveChatMessage(userId, persona.id, aiMessageData);
+      }
     } catch (error) {
       console.error('Failed to get AI response or save message:', error);
-      toast({
-        title: 'Error',
-        description: 'AI failed to respond or save message. Please try again.',
-        variant: 'destructive',
-      });
+      showReplyError(error);
       const errorAiMessageData: Omit<ChatMessage, 'id' | 'timestamp'> = {
         sender: 'ai',
-        text: "I'm sorry, I encountered an error and couldn't respond. Please try again.",
+        text: receivedText.trim() ? receivedText : "I'm sorry, I encountered an error and couldn't respond. Please try again.",
       };
       if (userId) await saveChatMessage(userId, persona.id, errorAiMessageData);
     } finally {
+      abortControllerRef.current = null;
+      setStreamingText(null);
+      setIsLoading(false);
+    }
+  };
+
+  // Writes an edit to a single message; older pages have no listener, so they are updated here too.
+  const applyMessageChanges = async (messageId: string, changes: Partial<Omit<ChatMessage, 'id' | 'timestamp' | 'sender'>>) => {
+    if (!userId) return;
+    await updateChatMessage(userId, persona.id, messageId, changes);
+    updateOlderMessage(messageId, changes);
+  };
+
+  /**
+   * Answers `userMessage` again from the conversation as it stood before it. The new reply is added as a variant of
+   * `aiMessage`, or saved as a new message when the user message has not been answered yet. Failed or empty
+   * replies leave the stored messages unchanged.
+   */
+  const rerunReply = async (userMessage: ChatMessage, aiMessage?: ChatMessage) => {
+    if (!userId) return;
+    setIsLoading(true);
+    setRegeneratingMessageId(aiMessage?.id ?? null);
+    try {
+      const idToken = await getIdToken();
+      const memory = await buildConversationMemory(userId, persona, idToken, userMessage);
+      const receivedText = await streamReply(userMessage, memory, idToken, () => {});
+      if (!receivedText.trim()) return;
+      if (aiMessage) {
+        await applyMessageChanges(aiMessage.id, addMessageVariant(aiMessage, receivedText));
+      } else {
+        setStreamingText(null);
+        await saveChatMessage(userId, persona.id, { sender: 'ai', text: receivedText, context: userMessage.context ?? '' });
+      }
+    } catch (error) {
+      console.error('Failed to regenerate AI response:', error);
+      showReplyError(error);
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingText(null);
+      setRegeneratingMessageId(null);
       setIsLoading(false);
     }
   };
 
+  // The message directly before `message`, looked up in the database when it is not loaded.
+  const getPreviousMessage = async (message: ChatMessage): Promise<ChatMessage | undefined> => {
+    const index = messages.findIndex((msg) => msg.id === message.id);
+    if (index > 0) return messages[index - 1];
+    if (!userId) return undefined;
+    const [previousMessage] = await getOlderChatMessages(userId, persona.id, message, 1);
+    return previousMessage;
+  };
+
+  const handleRegenerate = async (aiMessage: ChatMessage) => {
+    if (isLoading) return;
+    const userMessage = await getPreviousMessage(aiMessage).catch(() => undefined);
+    if (userMessage?.sender !== 'user') {
+      toast({ title: 'Cannot Regenerate', description: 'There is no message of yours for this reply to answer.', variant: 'destructive' });
+      return;
+    }
+    await rerunReply(userMessage, aiMessage);
+  };
+
+  const handleStartEdit = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditText(message.text);
+  };
+
+  // Saves the edited message and re-runs the AI turn that answers it: a new variant of the following reply, or a
+  // new reply when the edited message is the last one.
+  const handleSaveEdit = async (message: ChatMessage) => {
+    const text = editText.trim();
+    if (!text || isLoading) return;
+    const editedMessage: ChatMessage = { ...message, text, editedAt: Date.now() };
+    try {
+      if (text !== message.text) {
+        await applyMessageChanges(message.id, { text, editedAt: editedMessage.editedAt });
+      }
+    } catch (error) {
+      console.error('Error editing message:', error);
+      toast({ title: 'Error', description: 'Could not save your edit.', variant: 'destructive' });
+      return;
+    }
+    setEditingMessageId(null);
+
+    const index = messages.findIndex((msg) => msg.id === message.id);
+    const nextMessage = index >= 0 ? messages[index + 1] : undefined;
+    if (!nextMessage || nextMessage.sender === 'ai') {
+      await rerunReply(editedMessage, nextMessage);
+    }
+  };
+
+  const handleDeleteMessage = async (message: ChatMessage) => {
+    if (!userId) return;
+    try {
+      await deleteChatMessage(userId, persona.id, message.id);
+      updateOlderMessage(message.id, null);
+      if (editingMessageId === message.id) setEditingMessageId(null);
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      toast({ title: 'Error', description: 'Could not delete the message.', variant: 'destructive' });
+    }
+  };
+
+  const handleSelectVariant = async (message: ChatMessage, index: number) => {
+    const changes = selectMessageVariant(message, index);
+    if (!changes || isLoading) return;
+    try {
+      await applyMessageChanges(message.id, changes);
+    } catch (error) {
+      console.error('Error switching reply variant:', error);
+      toast({ title: 'Error', description: 'Could not switch to that reply.', variant: 'destructive' });
+    }
+  };
+
+  // Swiping an AI reply left shows the next variant and swiping right the previous one.
+  const handleVariantSwipe = (message: ChatMessage, touchEndX: number) => {
+    const touchStartX = touchStartXRef.current;
+    touchStartXRef.current = null;
+    if (touchStartX === null || Math.abs(touchEndX - touchStartX) < SWIPE_THRESHOLD_PX) return;
+    handleSelectVariant(message, getMessageVariantIndex(message) + (touchEndX < touchStartX ? 1 : -1));
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleClearChat = async () => {
     if (!userId) return;
     try {
       await clearChatMessagesFromStore(userId, persona.id);
+      clearOlderMessages();
       toast({ title: "Chat Cleared", description: "The chat history for this persona has been cleared." });
     } catch (error) {
       console.error("Error clearing chat:", error);
@@ -141,47 +339,117 @@ export default function ChatInterface({ persona }: ChatInterfaceProps) {
         </Button>
       </CardHeader>
 
-      <ScrollArea className="flex-grow p-4 bg-muted/30" ref={scrollAreaRef}>
+      <ScrollArea className="flex-grow p-4 bg-muted/30">
         <div className="space-y-4">
-          {messages.map((msg) => (
-            <div
-              key={msg.id}
-              className={`flex items-end gap-2 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'
-                }`}
-            >
-              {msg.sender === 'ai' && (
-                <Avatar className="h-8 w-8">
-                  <AvatarImage src={persona.avatarUrl || `https://picsum.photos/seed/${persona.id}/32/32`} alt={persona.name} data-ai-hint="ai avatar" />
-                  <AvatarFallback>{persona.name.substring(0, 1).toUpperCase()}</AvatarFallback>
-                </Avatar>
-              )}
+          <div ref={topSentinelRef} className="flex justify-center text-xs text-muted-foreground">
+            {isLoadingOlder && <Loader2 className="h-4 w-4 animate-spin" />}
+            {isWindowLoaded && !hasOlder && messages.length > 0 && <span>Beginning of conversation</span>}
+          </div>
+          {messages.map((msg) => {
+            const variants = getMessageVariants(msg);
+            const variantIndex = getMessageVariantIndex(msg);
+            const isRegenerating = msg.id === regeneratingMessageId && streamingText !== null;
+            const isEditing = msg.id === editingMessageId;
+            return (
               <div
-                className={`max-w-[70%] p-3 rounded-xl shadow ${msg.sender === 'user'
-                    ? 'bg-primary text-primary-foreground rounded-br-none'
-                    : 'bg-card text-card-foreground border rounded-bl-none'
+                key={msg.id}
+                className={`group flex items-end gap-2 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'
                   }`}
               >
-                <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
-                <p className={`text-xs mt-1 ${msg.sender === 'user' ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
-                  {formatTimestamp(msg.timestamp)}
-                </p>
+                {msg.sender === 'ai' && (
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={persona.avatarUrl || `https://picsum.photos/seed/${persona.id}/32/32`} alt={persona.name} data-ai-hint="ai avatar" />
+                    <AvatarFallback>{persona.name.substring(0, 1).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                )}
+                <div className={`max-w-[70%] flex flex-col gap-1 ${msg.sender === 'user' ? 'items-end' : 'items-start'}`}>
+                  <div
+                    className={`p-3 rounded-xl shadow ${msg.sender === 'user'
+                        ? 'bg-primary text-primary-foreground rounded-br-none'
+                        : 'bg-card text-card-foreground border rounded-bl-none'
+                      } ${isEditing ? 'w-full min-w-[16rem]' : ''}`}
+                    onTouchStart={variants.length > 1 ? (e) => { touchStartXRef.current = e.touches[0].clientX; } : undefined}
+                    onTouchEnd={variants.length > 1 ? (e) => handleVariantSwipe(msg, e.changedTouches[0].clientX) : undefined}
+                  >
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={editText}
+                          onChange={(e) => setEditText(e.target.value)}
+                          className="min-h-[60px] text-sm text-foreground bg-background"
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button type="button" variant="secondary" size="sm" onClick={() => setEditingMessageId(null)}>
+                            Cancel
+                          </Button>
+                          <Button type="button" variant="secondary" size="sm" onClick={() => handleSaveEdit(msg)} disabled={isLoading || !editText.trim()}>
+                            Save & Regenerate
+                          </Button>
+                        </div>
+                      </div>
+                    ) : isRegenerating ? (
+                      streamingText ? (
+                        <p className="text-sm whitespace-pre-wrap">{streamingText}</p>
+                      ) : (
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                      )
+                    ) : (
+                      <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
+                    )}
+                    <p className={`text-xs mt-1 ${msg.sender === 'user' ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                      {formatTimestamp(msg.timestamp)}{msg.editedAt ? ' · edited' : ''}
+                    </p>
+                  </div>
+                  {!isEditing && (
+                    <div className={`flex items-center gap-0.5 text-muted-foreground ${variants.length > 1 ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'} transition-opacity`}>
+                      {variants.length > 1 && (
+                        <>
+                          <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleSelectVariant(msg, variantIndex - 1)} disabled={isLoading || variantIndex === 0} title="Previous reply">
+                            <ChevronLeft className="h-3.5 w-3.5" />
+                          </Button>
+                          <span className="text-xs tabular-nums">{variantIndex + 1}/{variants.length}</span>
+                          <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleSelectVariant(msg, variantIndex + 1)} disabled={isLoading || variantIndex === variants.length - 1} title="Next reply">
+                            <ChevronRight className="h-3.5 w-3.5" />
+                          </Button>
+                        </>
+                      )}
+                      {msg.sender === 'ai' ? (
+                        <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleRegenerate(msg)} disabled={isLoading} title="Regenerate reply">
+                          <RefreshCw className="h-3.5 w-3.5" />
+                        </Button>
+                      ) : (
+                        <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleStartEdit(msg)} disabled={isLoading} title="Edit message">
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleDeleteMessage(msg)} disabled={isLoading} title="Delete message">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {msg.sender === 'user' && (
+                  <Avatar className="h-8 w-8">
+                    {/* Current user avatar could be fetched from useAuth().userProfile if needed */}
+                    <AvatarFallback>U</AvatarFallback>
+                  </Avatar>
+                )}
               </div>
-              {msg.sender === 'user' && (
-                <Avatar className="h-8 w-8">
-                  {/* Current user avatar could be fetched from useAuth().userProfile if needed */}
-                  <AvatarFallback>U</AvatarFallback>
-                </Avatar>
-              )}
-            </div>
-          ))}
-          {isLoading && messages[messages.length - 1]?.sender === 'user' && (
+            );
+          })}
+          {streamingText !== null && !regeneratingMessageId && (
             <div className="flex items-end gap-2 justify-start">
               <Avatar className="h-8 w-8">
                 <AvatarImage src={persona.avatarUrl || `https://picsum.photos/seed/${persona.id}/32/32`} alt={persona.name} data-ai-hint="ai avatar" />
                 <AvatarFallback>{persona.name.substring(0, 1).toUpperCase()}</AvatarFallback>
               </Avatar>
               <div className="max-w-[70%] p-3 rounded-xl shadow bg-card text-card-foreground border rounded-bl-none">
-                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                {streamingText ? (
+                  <p className="text-sm whitespace-pre-wrap">{streamingText}</p>
+                ) : (
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                )}
               </div>
             </div>
           )}
@@ -226,13 +494,19 @@ export default function ChatInterface({ persona }: ChatInterfaceProps) {
               }}
               disabled={!userId}
             />
-            <Button type="submit" disabled={isLoading || !userInput.trim() || !userId}>
-              {isLoading ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <Send className="h-4 w-4" />
-              )}
-            </Button>
+            {streamingText !== null ? (
+              <Button type="button" variant="outline" onClick={handleStopGeneration} title="Stop generating">
+                <Square className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button type="submit" disabled={isLoading || !userInput.trim() || !userId}>
+                {isLoading ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            )}
           </div>
         </form>
       </CardFooter>
@@ -1,7 +1,7 @@
 
 'use client';
 
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { Send, Loader2, Trash2, Bot, RefreshCw } from 'lucide-react';
@@ -14,17 +14,23 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/componen
 import { useToast } from '@/hooks/use-toast';
 import { ToastAction } from '@/components/ui/toast';
 import { useAuth } from '@/hooks/useAuth';
+import { usePaginatedMessages } from '@/hooks/use-paginated-messages';
 import { 
   getUserChatMessages, 
+  getOlderUserChatMessages,
   saveUserChatMessage, 
   clearUserChatMessages,
   generateUserChatId,
   getChatDerivedPersona,
-  savePersona,
+  savePersonaWithDescriptionVersion,
   getPersonaById,
-  getPersonasCount, // Import getPersonasCount
+  type MessageCursor,
 } from '@/lib/store';
-import { createPersonaFromChat } from '@/ai/flows/create-persona-from-chat';
+import { createPersonaFromHistory } from '@/lib/chunked-analysis';
+import { cleanPersonaProfile } from '@/lib/persona-profile';
+import { extractStyleExemplars } from '@/lib/style-exemplars';
+import { PERSONA_NAME_MAX_CHARS } from '@/lib/constants';
+import { createPersonaAction } from '@/app/actions/personas/create-persona.action';
 import { formatDistanceToNow } from 'date-fns';
 import ChatInterface from './ChatInterface'; 
 import { Switch } from "@/components/ui/switch";
@@ -35,7 +41,6 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { FREE_PERSONA_LIMIT } from '@/lib/constants';
 
 interface UserChatInterfaceProps {
   contactUser: UserProfile;
@@ -45,7 +50,6 @@ interface UserChatInterfaceProps {
 const MESSAGES_PER_PERSONA_UPDATE = 5; 
 
 export default function UserChatInterface({ contactUser, currentUser }: UserChatInterfaceProps) {
-  const [messages, setMessages] = useState<UserChatMessage[]>([]);
   const [userInput, setUserInput] = useState('');
   const [isSendingMessage, setIsSendingMessage] = useState(false);
   const [isGeneratingPersona, setIsGeneratingPersona] = useState(false);
@@ -53,40 +57,32 @@ export default function UserChatInterface({ contactUser, currentUser }: UserChat
   const [chatDerivedPersona, setChatDerivedPersona] = useState<PersonaType | null>(null);
   
   const { toast } = useToast();
-  const { userId, userProfile } = useAuth(); 
-  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const { userId, userProfile, getIdToken } = useAuth(); 
   
   const chatId = currentUser?.id && contactUser?.id ? generateUserChatId(currentUser.id, contactUser.id) : null;
 
-  useEffect(() => {
-    let unsubscribeMessages: (() => void) | undefined;
-    
-    const loadData = async () => {
-      if (userId && chatId) {
-        unsubscribeMessages = getUserChatMessages(chatId, (fetchedMessages) => {
-          setMessages(fetchedMessages);
-        });
+  // The newest page is live; older pages load as the user scrolls up.
+  const messageSource = useMemo(() => userId && chatId ? {
+    key: chatId,
+    subscribe: (callback: (messages: UserChatMessage[]) => void, pageSize: number) => getUserChatMessages(chatId, callback, pageSize),
+    fetchOlder: (before: MessageCursor, pageSize: number) => getOlderUserChatMessages(chatId, before, pageSize),
+  } : null, [userId, chatId]);
+  const { messages, isWindowLoaded, hasOlder, isLoadingOlder, topSentinelRef, scrollToBottom, clearOlderMessages } = usePaginatedMessages(messageSource);
 
-        const existingDerivedPersona = await getChatDerivedPersona(userId, chatId, contactUser.id);
+  useEffect(() => {
+    if (userId && chatId) {
+      getChatDerivedPersona(userId, chatId, contactUser.id).then((existingDerivedPersona) => {
         if (existingDerivedPersona) {
           setChatDerivedPersona(existingDerivedPersona);
         }
-      }
-    };
-    loadData();
-
-    return () => {
-      if (unsubscribeMessages) {
-        unsubscribeMessages();
-      }
-    };
+      });
+    }
   }, [chatId, userId, contactUser.id]);
 
   useEffect(() => {
-    if (scrollAreaRef.current) {
-      scrollAreaRef.current.scrollTo({ top: scrollAreaRef.current.scrollHeight, behavior: 'smooth' });
-    }
-  }, [messages, isPracticeMode]);
+    // The message list is mounted again when leaving practice mode.
+    if (!isPracticeMode) scrollToBottom('auto');
+  }, [isPracticeMode, scrollToBottom]);
 
   const updateOrCreateChatDerivedPersona = useCallback(async () => {
     if (!userId || !chatId || !userProfile) { // Ensure userProfile is available
@@ -100,76 +96,61 @@ export default function UserChatInterface({ contactUser, currentUser }: UserChat
         return;
     }
 
-    const existingPersona = await getChatDerivedPersona(userId, chatId, contactUser.id);
-
-    // Check quota ONLY IF creating a NEW persona
-    if (!existingPersona) {
-      const currentPersonasCount = await getPersonasCount(userId);
-      const currentQuota = userProfile.personaQuota === undefined ? FREE_PERSONA_LIMIT : userProfile.personaQuota;
-      if (currentPersonasCount >= currentQuota) {
-        toast({
-          title: "Persona Limit Reached",
-          description: `You have ${currentPersonasCount}/${currentQuota} personas. Please upgrade to create more chat-derived personas.`,
-          variant: "destructive",
-          duration: 7000,
-          action: (
-            <Link href="/personas/new" legacyBehavior>
-              <ToastAction altText="Upgrade Plan">Upgrade</ToastAction>
-            </Link>
-          )
-        });
-        setIsGeneratingPersona(false);
-        return; 
-      }
-    }
-
     setIsGeneratingPersona(true);
     try {
       const chatHistoryForPersona = contactMessagesFromState.map(msg => `${contactUser.name}: ${msg.text}`).join('\n');
-      const aiResponse = await createPersonaFromChat({ chatHistory: chatHistoryForPersona });
+      const { personaDescription, profile: generatedProfile } = await createPersonaFromHistory({ chatHistory: chatHistoryForPersona }, getIdToken);
+      const profile = cleanPersonaProfile(generatedProfile);
+      const styleExemplars = extractStyleExemplars(contactMessagesFromState.map((msg) => msg.text));
 
-      let personaToSave: PersonaType;
-      // Re-fetch existingPersona in case it was created by another call while this one was in progress
+      // Re-fetch in case the persona was created by another call while this one was in progress
       const currentExistingPersona = await getChatDerivedPersona(userId, chatId, contactUser.id);
 
-
+      let savedPersona: PersonaType;
       if (currentExistingPersona) {
-        personaToSave = {
+        savedPersona = {
           ...currentExistingPersona,
-          personaDescription: aiResponse.personaDescription,
+          personaDescription,
+          profile,
+          styleExemplars,
           sourceChatMessagesCount: contactMessagesFromState.length,
           createdAt: currentExistingPersona.createdAt, 
         };
+        await savePersonaWithDescriptionVersion(userId, savedPersona, currentExistingPersona, { author: 'chat-refresh' });
       } else {
-        // Double check quota again before final creation if it's a very new persona
-        // This is a small race condition mitigation, primary check is above
-        const latestPersonasCount = await getPersonasCount(userId);
-        const latestQuota = userProfile.personaQuota === undefined ? FREE_PERSONA_LIMIT : userProfile.personaQuota;
-        if (latestPersonasCount >= latestQuota) {
-            toast({
-                title: "Persona Limit Reached",
-                description: `Creation blocked as limit of ${latestQuota} was met. Please upgrade.`,
-                variant: "destructive",
-            });
-            setIsGeneratingPersona(false);
-            return;
-        }
-
-        personaToSave = {
-          id: crypto.randomUUID(),
-          name: `${contactUser.name}'s Chat Persona`,
+        // New personas count against the quota, which the server checks atomically as it creates them.
+        const result = await createPersonaAction({
+          name: `${contactUser.name}'s Chat Persona`.slice(0, PERSONA_NAME_MAX_CHARS),
           originType: 'chat-derived',
           derivedFromChatId: chatId,
           derivedRepresentingUserId: contactUser.id,
-          personaDescription: aiResponse.personaDescription,
+          personaDescription,
+          profile,
+          styleExemplars,
           sourceChatMessagesCount: contactMessagesFromState.length,
-          createdAt: new Date().toISOString(),
           avatarUrl: contactUser.avatarUrl || `https://picsum.photos/seed/${contactUser.id}_persona/60/60`,
-        };
+        }, await getIdToken());
+        if (result.quotaExceeded) {
+          toast({
+            title: "Persona Limit Reached",
+            description: `${result.message} Chat-derived personas count towards your quota.`,
+            variant: "destructive",
+            duration: 7000,
+            action: (
+              <Link href="/personas/new" legacyBehavior>
+                <ToastAction altText="Upgrade Plan">Upgrade</ToastAction>
+              </Link>
+            )
+          });
+          return;
+        }
+        if (!result.success || !result.persona) {
+          throw new Error(result.message);
+        }
+        savedPersona = result.persona;
       }
       
-      await savePersona(userId, personaToSave);
-      setChatDerivedPersona(personaToSave); // Update local state
+      setChatDerivedPersona(savedPersona); // Update local state
       toast({
         title: 'Persona Updated',
         description: `${contactUser.name}'s chat persona has been ${currentExistingPersona ? 'updated' : 'created'}.`,
@@ -184,7 +165,7 @@ export default function UserChatInterface({ contactUser, currentUser }: UserChat
     } finally {
       setIsGeneratingPersona(false);
     }
-  }, [userId, chatId, contactUser.id, contactUser.name, contactUser.avatarUrl, messages, toast, userProfile]);
+  }, [userId, chatId, contactUser.id, contactUser.name, contactUser.avatarUrl, messages, toast, userProfile, getIdToken]);
 
 
   const handleSendMessage = async (e?: React.FormEvent<HTMLFormElement>) => {
@@ -218,6 +199,7 @@ export default function UserChatInterface({ contactUser, currentUser }: UserChat
     if (!userId || !chatId) return;
     try {
       await clearUserChatMessages(chatId);
+      clearOlderMessages();
       toast({title: "Chat Cleared", description: `The chat history with ${contactUser.name} has been cleared.`});
     } catch (error) {
       console.error("Error clearing chat:", error);
@@ -341,8 +323,12 @@ export default function UserChatInterface({ contactUser, currentUser }: UserChat
           <ChatInterface persona={personaForPractice} />
         ) : (
           <>
-            <ScrollArea className="flex-grow p-4 bg-muted/30" ref={scrollAreaRef}>
+            <ScrollArea className="flex-grow p-4 bg-muted/30">
               <div className="space-y-4">
+                <div ref={topSentinelRef} className="flex justify-center text-xs text-muted-foreground">
+                  {isLoadingOlder && <Loader2 className="h-4 w-4 animate-spin" />}
+                  {isWindowLoaded && !hasOlder && messages.length > 0 && <span>Beginning of conversation</span>}
+                </div>
                 {messages.map((msg) => (
                   <div
                     key={msg.id}
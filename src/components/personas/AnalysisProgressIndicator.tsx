@@ -0,0 +1,31 @@
+'use client';
+
+import { Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import type { AnalysisProgress } from '@/lib/chunked-analysis';
+
+interface AnalysisProgressIndicatorProps {
+  label: string;
+  progress: AnalysisProgress | null;
+}
+
+// Shows how far a (possibly chunked) analysis has got. Single-step analyses only show the spinner.
+export default function AnalysisProgressIndicator({ label, progress }: AnalysisProgressIndicatorProps) {
+  const isChunked = !!progress && progress.total > 1;
+  const isMerging = isChunked && progress.completed === progress.total - 1;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="mr-2 h-4 w-4 animate-spin text-primary" />
+        {label}
+        {isChunked && (
+          <span className="ml-1">
+            {isMerging ? '(merging results...)' : `(part ${progress.completed + 1} of ${progress.total - 1})`}
+          </span>
+        )}
+      </div>
+      {isChunked && <Progress value={(progress.completed / progress.total) * 100} className="h-2" />}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState, type ChangeEvent } from 'react';
+import { FileUp, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  buildSpeakerSeed,
+  CHAT_EXPORT_FORMAT_LABELS,
+  ChatImportError,
+  parseChatExport,
+  type ChatSeed,
+  type ParsedChatExport,
+} from '@/lib/chat-import';
+import { CHAT_IMPORT_MAX_FILE_BYTES } from '@/lib/constants';
+
+export interface ImportedSeed extends ChatSeed {
+  speaker: string;
+}
+
+interface ChatExportImportProps {
+  onSeedChange: (seed: ImportedSeed | null) => void;
+  disabled?: boolean;
+}
+
+// Lets the user upload a chat export and pick the participant to imitate. The file is parsed in the browser.
+export default function ChatExportImport({ onSeedChange, disabled }: ChatExportImportProps) {
+  const [parsedExport, setParsedExport] = useState<ParsedChatExport | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [selectedSpeaker, setSelectedSpeaker] = useState('');
+  const [seed, setSeed] = useState<ChatSeed | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [inputKey, setInputKey] = useState(0);
+
+  const reset = () => {
+    setParsedExport(null);
+    setFileName('');
+    setSelectedSpeaker('');
+    setSeed(null);
+    setError(null);
+    setInputKey((key) => key + 1);
+    onSeedChange(null);
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    reset();
+    if (file.size > CHAT_IMPORT_MAX_FILE_BYTES) {
+      setError(`This file is too large. The limit is ${CHAT_IMPORT_MAX_FILE_BYTES / (1024 * 1024)} MB.`);
+      return;
+    }
+
+    setIsParsing(true);
+    try {
+      const parsed = parseChatExport(file.name, await file.text());
+      setParsedExport(parsed);
+      setFileName(file.name);
+    } catch (parseError) {
+      console.error('Failed to parse chat export:', parseError);
+      setError(parseError instanceof ChatImportError ? parseError.message : 'This file could not be read as a chat export.');
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleSpeakerChange = (speaker: string) => {
+    if (!parsedExport) return;
+    const speakerSeed = buildSpeakerSeed(parsedExport.messages, speaker);
+    setSelectedSpeaker(speaker);
+    setSeed(speakerSeed);
+    onSeedChange({ ...speakerSeed, speaker });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-dashed p-4">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="chat-export-file" className="flex items-center gap-2">
+          <FileUp className="h-4 w-4" /> Import a Chat Export (Optional)
+        </Label>
+        {parsedExport && (
+          <Button type="button" variant="ghost" size="sm" onClick={reset} disabled={disabled}>
+            <X className="mr-1 h-4 w-4" /> Clear
+          </Button>
+        )}
+      </div>
+      <Input
+        key={inputKey}
+        id="chat-export-file"
+        type="file"
+        accept=".txt,.json,.csv"
+        onChange={handleFileChange}
+        disabled={disabled || isParsing}
+      />
+      <p className="text-xs text-muted-foreground">
+        WhatsApp (.txt), Telegram or Discord (.json) and CSV exports such as iMessage are supported. The file is read on your device.
+      </p>
+      {isParsing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+      {parsedExport && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            {CHAT_EXPORT_FORMAT_LABELS[parsedExport.format]} export <span className="text-muted-foreground">({fileName})</span>:{' '}
+            {parsedExport.messages.length.toLocaleString()} messages from {parsedExport.speakers.length} participant{parsedExport.speakers.length === 1 ? '' : 's'}.
+          </p>
+          <Select value={selectedSpeaker} onValueChange={handleSpeakerChange} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue placeholder="Who should the persona imitate?" />
+            </SelectTrigger>
+            <SelectContent>
+              {parsedExport.speakers.map((speaker) => (
+                <SelectItem key={speaker.name} value={speaker.name}>
+                  {speaker.name} ({speaker.messageCount.toLocaleString()} messages)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {seed && (
+            <p className="text-xs text-muted-foreground">
+              Using {seed.speakerMessageCount.toLocaleString()} messages from {selectedSpeaker}, each with the messages just before it as context.
+              {seed.truncated && ' The export is long, so only the most recent messages are included.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
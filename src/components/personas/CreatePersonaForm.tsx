@@ -17,13 +17,16 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 
-import type { Persona } from '@/lib/types';
+import type { NewPersonaData } from '@/lib/types';
 import { MBTI_TYPES, GENDERS } from '@/lib/types';
-import { savePersona as savePersonaToDB, getPersonasCount } from '@/lib/store'; 
-import { createPersonaFromChat } from '@/ai/flows/create-persona-from-chat';
-import { FREE_PERSONA_LIMIT } from '@/lib/constants';
+import { createPersonaFromHistory, type AnalysisProgress } from '@/lib/chunked-analysis';
+import { cleanPersonaProfile } from '@/lib/persona-profile';
+import { extractSeedStyleExemplars } from '@/lib/style-exemplars';
+import { createPersonaAction } from '@/app/actions/personas/create-persona.action';
 import Link from 'next/link';
 import { ToastAction } from '../ui/toast';
+import ChatExportImport, { type ImportedSeed } from './ChatExportImport';
+import AnalysisProgressIndicator from './AnalysisProgressIndicator';
 
 const personaFormSchema = z.object({
   name: z.string().min(2, { message: "Name must be at least 2 characters." }).max(50),
@@ -44,8 +47,11 @@ interface CreatePersonaFormProps {
 export default function CreatePersonaForm({ currentPersonaCount, currentQuota }: CreatePersonaFormProps) {
   const router = useRouter();
   const { toast } = useToast();
-  const { userId, userProfile } = useAuth();
+  const { userId, userProfile, getIdToken } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
+  const [seedSpeaker, setSeedSpeaker] = useState<string | undefined>(undefined);
+  const [seedDateRange, setSeedDateRange] = useState<ImportedSeed['dateRange']>(undefined);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
 
   const form = useForm<PersonaFormValues>({
     resolver: zodResolver(personaFormSchema),
@@ -56,6 +62,15 @@ export default function CreatePersonaForm({ currentPersonaCount, currentQuota }:
     },
   });
 
+  const handleImportedSeed = (seed: ImportedSeed | null) => {
+    setSeedSpeaker(seed?.speaker);
+    setSeedDateRange(seed?.dateRange);
+    form.setValue('chatHistory', seed?.chatHistory ?? '', { shouldValidate: !!seed });
+    if (seed && !form.getValues('name')) {
+      form.setValue('name', seed.speaker.slice(0, 50), { shouldValidate: true });
+    }
+  };
+
   async function onSubmit(data: PersonaFormValues) {
     if (!userId || !userProfile) {
       toast({
@@ -69,52 +84,55 @@ export default function CreatePersonaForm({ currentPersonaCount, currentQuota }:
 
     setIsLoading(true);
 
-    // Re-check quota on submit, as it might have changed
-    const latestPersonasCount = await getPersonasCount(userId);
-    const userCurrentQuota = userProfile.personaQuota === undefined ? FREE_PERSONA_LIMIT : userProfile.personaQuota;
-
-    if (latestPersonasCount >= userCurrentQuota) {
-      toast({
-        title: "Persona Limit Reached",
-        description: `You have ${latestPersonasCount}/${userCurrentQuota} personas. Please upgrade to create more.`,
-        variant: "destructive",
-        duration: 7000,
-        action: (
-          <Link href="/personas/new" legacyBehavior>
-            <ToastAction altText="Upgrade Plan">Upgrade</ToastAction>
-          </Link>
-        )
-      });
-      setIsLoading(false);
-      // Potentially redirect to paywall or dashboard
-      router.push("/personas/new"); // This will re-evaluate and show PaywallNotice if needed
-      return;
-    }
-
-
     try {
-      const aiResponse = await createPersonaFromChat({ chatHistory: data.chatHistory });
+      // Long histories are analyzed in chunks and merged; progress is shown while that runs.
+      const { personaDescription, profile } = await createPersonaFromHistory(
+        { chatHistory: data.chatHistory, targetSpeaker: seedSpeaker },
+        getIdToken,
+        setAnalysisProgress
+      );
       
-      const newPersona: Persona = {
-        id: crypto.randomUUID(), 
+      const newPersona: NewPersonaData = {
         name: data.name,
         originType: 'user-created',
         chatHistory: data.chatHistory,
+        seedSpeaker,
+        seedDateRange,
         mbti: data.mbti,
         age: data.age,
         gender: data.gender,
         category: data.category || undefined, 
-        personaDescription: aiResponse.personaDescription,
-        createdAt: new Date().toISOString(),
+        personaDescription,
+        profile: cleanPersonaProfile(profile),
+        styleExemplars: extractSeedStyleExemplars(data.chatHistory, seedSpeaker),
         avatarUrl: `https://picsum.photos/seed/${data.name + Date.now()}/200/200`
       };
 
-      await savePersonaToDB(userId, newPersona); 
+      // The server checks the quota and creates the persona in one transaction.
+      const result = await createPersonaAction(newPersona, await getIdToken());
+      if (result.quotaExceeded) {
+        toast({
+          title: "Persona Limit Reached",
+          description: result.message,
+          variant: "destructive",
+          duration: 7000,
+          action: (
+            <Link href="/personas/new" legacyBehavior>
+              <ToastAction altText="Upgrade Plan">Upgrade</ToastAction>
+            </Link>
+          )
+        });
+        router.push("/personas/new"); // This will re-evaluate and show PaywallNotice if needed
+        return;
+      }
+      if (!result.success || !result.persona) {
+        throw new Error(result.message);
+      }
       toast({
         title: 'Persona Created!',
         description: `${data.name} has been successfully created and analyzed.`,
       });
-      router.push(`/personas/${newPersona.id}`);
+      router.push(`/personas/${result.persona.id}`);
     } catch (error) {
       console.error('Failed to create persona:', error);
       toast({
@@ -124,6 +142,7 @@ export default function CreatePersonaForm({ currentPersonaCount, currentQuota }:
       });
     } finally {
       setIsLoading(false);
+      setAnalysisProgress(null);
     }
   }
 
@@ -155,6 +174,8 @@ export default function CreatePersonaForm({ currentPersonaCount, currentQuota }:
               )}
             />
 
+            <ChatExportImport onSeedChange={handleImportedSeed} disabled={isLoading} />
+
             <FormField
               control={form.control}
               name="chatHistory"
@@ -169,7 +190,9 @@ export default function CreatePersonaForm({ currentPersonaCount, currentQuota }:
                     />
                   </FormControl>
                   <FormDescription>
-                    This chat history will be used as the initial basis for the persona's AI generation.
+                    {seedSpeaker
+                      ? `Imported from a chat export: only ${seedSpeaker}'s messages and the lines just before them. You can still edit it.`
+                      : "This chat history will be used as the initial basis for the persona's AI generation."}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -269,7 +292,8 @@ export default function CreatePersonaForm({ currentPersonaCount, currentQuota }:
               />
             </div>
           </CardContent>
-          <CardFooter className="border-t pt-6">
+          <CardFooter className="border-t pt-6 flex flex-col items-stretch gap-4 sm:items-start">
+            {isLoading && <AnalysisProgressIndicator label="Analyzing chat history..." progress={analysisProgress} />}
             <Button type="submit" className="w-full sm:w-auto" disabled={isLoading || !userId || !userProfile}>
               {isLoading ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -0,0 +1,132 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { GitCompare, Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { diffWords, type DiffSegment } from '@/lib/text-diff';
+import { formatPersonaProfile, isSamePersonaProfile } from '@/lib/persona-profile';
+import type { PersonaDescriptionAuthor, PersonaDescriptionVersion, PersonaProfile } from '@/lib/types';
+
+interface DescriptionHistoryProps {
+  versions: PersonaDescriptionVersion[]; // Oldest first; the newest matches the current description and profile
+  currentDescription?: string;
+  currentProfile?: PersonaProfile;
+  onRevert: (version: PersonaDescriptionVersion) => Promise<void>;
+  revertingVersionId: string | null;
+}
+
+const AUTHOR_LABELS: Record<PersonaDescriptionAuthor, string> = {
+  creation: 'Original',
+  manual: 'Manual edit',
+  'development-prompt': 'Development prompt',
+  'chat-refresh': 'Chat refresh',
+};
+
+function DiffPane({ title, segments, hide }: { title: string; segments: DiffSegment[]; hide: DiffSegment['type'] }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-semibold text-muted-foreground">{title}</p>
+      <ScrollArea className="h-48 rounded-md bg-muted p-2">
+        <p className="whitespace-pre-wrap text-xs leading-relaxed">
+          {segments.filter((segment) => segment.type !== hide).map((segment, index) => (
+            <span
+              key={index}
+              className={
+                segment.type === 'removed'
+                  ? 'bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300'
+                  : segment.type === 'added'
+                    ? 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300'
+                    : undefined
+              }
+            >
+              {segment.text}
+            </span>
+          ))}
+        </p>
+      </ScrollArea>
+    </div>
+  );
+}
+
+// The description followed by the compiled profile, so a comparison also shows profile changes.
+const toComparableText = (description: string, profile: PersonaProfile | undefined): string =>
+  [description, formatPersonaProfile(profile)].filter(Boolean).join('\n\n');
+
+// Lists every recorded persona description and profile, compares any of them side by side with the current one and restores it.
+export default function DescriptionHistory({ versions, currentDescription, currentProfile, onRevert, revertingVersionId }: DescriptionHistoryProps) {
+  const [comparedVersionId, setComparedVersionId] = useState<string | null>(null);
+
+  const comparedVersion = versions.find((version) => version.id === comparedVersionId);
+  const segments = useMemo(
+    () => (comparedVersion
+      ? diffWords(
+          // Versions without a profile keep the current one when restored, so they compare against it too.
+          toComparableText(comparedVersion.description, comparedVersion.profile ?? currentProfile),
+          toComparableText(currentDescription ?? '', currentProfile)
+        )
+      : []),
+    [comparedVersion, currentDescription, currentProfile]
+  );
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No earlier versions yet. Manual edits (including profile edits), development prompts and chat refreshes are recorded here from now on.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {[...versions].reverse().map((version) => {
+          const matchesCurrent = version.description === currentDescription &&
+            (!version.profile || isSamePersonaProfile(version.profile, currentProfile));
+          const isCurrent = matchesCurrent && version.id === versions[versions.length - 1].id;
+          return (
+            <li key={version.id} className="rounded-md border p-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="secondary">{AUTHOR_LABELS[version.author]}</Badge>
+                  {version.revertedFromVersionId && <Badge variant="outline">Restored</Badge>}
+                  {isCurrent && <Badge>Current</Badge>}
+                  <span className="text-xs text-muted-foreground">{format(new Date(version.createdAt), 'PP p')}</span>
+                </div>
+                {!matchesCurrent && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant={comparedVersionId === version.id ? 'secondary' : 'outline'}
+                      size="sm"
+                      onClick={() => setComparedVersionId(comparedVersionId === version.id ? null : version.id)}
+                    >
+                      <GitCompare className="mr-1 h-4 w-4" /> Compare
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => onRevert(version)} disabled={revertingVersionId !== null}>
+                      {revertingVersionId === version.id ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-1 h-4 w-4" />}
+                      Revert
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {version.prompt && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  <span className="font-medium">Prompt:</span> {version.prompt}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {comparedVersion && (
+        <div className="grid gap-3 md:grid-cols-2">
+          <DiffPane title={`${AUTHOR_LABELS[comparedVersion.author]} · ${format(new Date(comparedVersion.createdAt), 'PP p')}`} segments={segments} hide="added" />
+          <DiffPane title="Current" segments={segments} hide="removed" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { importPersonaAction } from '@/app/actions/personas/import-persona.action';
+import { parsePersonaExport, PersonaImportError, PERSONA_IMPORT_MAX_FILE_BYTES } from '@/lib/persona-export';
+
+// Imports a persona export file (from the persona page's Export button) into the signed-in account.
+// The file is checked in the browser first for quick feedback; the server validates it again before writing.
+export default function ImportPersonaButton() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const { userId, getIdToken } = useAuth();
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow choosing the same file again after a failed import
+    if (!file || !userId) return;
+    if (file.size > PERSONA_IMPORT_MAX_FILE_BYTES) {
+      toast({
+        title: 'Import Failed',
+        description: `This file is too large. The limit is ${PERSONA_IMPORT_MAX_FILE_BYTES / (1024 * 1024)} MB.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      let exportData: unknown;
+      try {
+        exportData = JSON.parse(await file.text());
+      } catch {
+        throw new PersonaImportError('This file is not valid JSON.');
+      }
+      parsePersonaExport(exportData);
+
+      const result = await importPersonaAction(exportData, await getIdToken());
+      if (result.quotaExceeded) {
+        toast({
+          title: 'Persona Limit Reached',
+          description: result.message,
+          variant: 'destructive',
+          duration: 7000,
+          action: (
+            <Link href="/personas/new" legacyBehavior>
+              <ToastAction altText="Upgrade Plan">Upgrade</ToastAction>
+            </Link>
+          ),
+        });
+        return;
+      }
+      if (!result.success || !result.persona) {
+        throw new PersonaImportError(result.message);
+      }
+      toast({
+        title: 'Persona Imported',
+        description: `${result.persona.name} was imported with ${result.importedMessagesCount ?? 0} chat messages.`,
+      });
+      router.push(`/personas/${result.persona.id}`);
+    } catch (error) {
+      console.error('Failed to import persona:', error);
+      toast({
+        title: 'Import Failed',
+        description: error instanceof PersonaImportError ? error.message : 'Could not import this persona.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+      <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={!userId || isImporting}>
+        {isImporting ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Upload className="mr-2 h-5 w-5" />}
+        Import Persona
+      </Button>
+    </>
+  );
+}
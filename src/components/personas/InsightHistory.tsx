@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { buildInsightTrend, diffInsightSnapshots, type ListChange } from '@/lib/insight-drift';
+import type { PersonaInsightSnapshot } from '@/lib/types';
+
+interface InsightHistoryProps {
+  snapshots: PersonaInsightSnapshot[]; // Oldest first
+}
+
+const CHART_COLORS = ['hsl(var(--chart-1))', 'hsl(var(--chart-2))', 'hsl(var(--chart-3))', 'hsl(var(--chart-4))', 'hsl(var(--chart-5))'];
+
+const STYLE_SERIES = [
+  { key: 'positive', name: 'Positive %' },
+  { key: 'negative', name: 'Negative %' },
+  { key: 'neutral', name: 'Neutral %' },
+  { key: 'useOfEmojis', name: 'Emoji use %' },
+  { key: 'questionRate', name: 'Question rate %' },
+] as const;
+
+const chartTooltipProps = {
+  contentStyle: { backgroundColor: 'hsl(var(--background))', border: '1px solid hsl(var(--border))', borderRadius: 'var(--radius)' },
+  itemStyle: { color: 'hsl(var(--foreground))' },
+};
+
+const snapshotLabel = (snapshot: PersonaInsightSnapshot) => format(new Date(snapshot.createdAt), 'PP p');
+
+const formatDelta = (delta: number, unit: string) => `${delta > 0 ? '+' : ''}${delta}${unit === '%' ? ' pts' : unit ? ` ${unit}` : ''}`;
+
+function ListChangeRow({ label, change }: { label: string; change: ListChange }) {
+  if (change.added.length === 0 && change.removed.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {change.added.map((item) => <Badge key={`added-${item}`} variant="default">+ {item}</Badge>)}
+        {change.removed.map((item) => <Badge key={`removed-${item}`} variant="destructive">− {item}</Badge>)}
+      </div>
+    </div>
+  );
+}
+
+// Charts how a persona's insights change across analysis runs and compares any two runs.
+export default function InsightHistory({ snapshots }: InsightHistoryProps) {
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  // Default to comparing the two most recent runs whenever a new snapshot arrives.
+  useEffect(() => {
+    if (snapshots.length < 2) return;
+    setFromId(snapshots[snapshots.length - 2].id);
+    setToId(snapshots[snapshots.length - 1].id);
+  }, [snapshots]);
+
+  const trend = useMemo(() => buildInsightTrend(snapshots), [snapshots]);
+  const chartData = trend.points.map((point) => ({
+    ...point,
+    // Prefixed so a keyword such as "positive" cannot clash with the style series
+    ...Object.fromEntries(Object.entries(point.keywords).map(([keyword, frequency]) => [`keyword:${keyword}`, frequency])),
+    date: format(new Date(point.createdAt), 'MMM d'),
+  }));
+
+  const fromSnapshot = snapshots.find((snapshot) => snapshot.id === fromId);
+  const toSnapshot = snapshots.find((snapshot) => snapshot.id === toId);
+  const diff = fromSnapshot && toSnapshot && fromSnapshot.id !== toSnapshot.id ? diffInsightSnapshots(fromSnapshot, toSnapshot) : null;
+
+  if (snapshots.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No analysis runs have been saved yet. Each time insights are generated, a snapshot is added here.
+      </p>
+    );
+  }
+  if (snapshots.length === 1) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        One analysis run saved ({snapshotLabel(snapshots[0])}). Refresh the insights later to track how this persona changes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader><CardTitle className="text-base">Sentiment & Style Over Time</CardTitle></CardHeader>
+        <CardContent className="h-[220px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ left: -10, right: 10, top: 5, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis dataKey="date" stroke="hsl(var(--foreground))" fontSize={10} />
+              <YAxis domain={[0, 100]} stroke="hsl(var(--foreground))" fontSize={10} />
+              <RechartsTooltip {...chartTooltipProps} />
+              <Legend iconSize={10} wrapperStyle={{ fontSize: '12px' }} />
+              {STYLE_SERIES.map((series, index) => (
+                <Line key={series.key} type="monotone" dataKey={series.key} name={series.name} stroke={CHART_COLORS[index]} strokeWidth={2} dot={{ r: 2 }} />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      {trend.keywords.length > 0 && (
+        <Card>
+          <CardHeader><CardTitle className="text-base">Top Keywords Over Time</CardTitle></CardHeader>
+          <CardContent className="h-[220px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ left: -10, right: 10, top: 5, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="date" stroke="hsl(var(--foreground))" fontSize={10} />
+                <YAxis allowDecimals={false} stroke="hsl(var(--foreground))" fontSize={10} />
+                <RechartsTooltip {...chartTooltipProps} />
+                <Legend iconSize={10} wrapperStyle={{ fontSize: '12px' }} />
+                {trend.keywords.map((keyword, index) => (
+                  <Line key={keyword} type="monotone" dataKey={`keyword:${keyword}`} name={keyword} stroke={CHART_COLORS[index % CHART_COLORS.length]} strokeWidth={2} dot={{ r: 2 }} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader><CardTitle className="text-base">Compare Two Analyses</CardTitle></CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            {[
+              { id: 'insight-diff-from', label: 'From', value: fromId, onChange: setFromId },
+              { id: 'insight-diff-to', label: 'To', value: toId, onChange: setToId },
+            ].map((picker) => (
+              <div key={picker.id} className="space-y-1">
+                <Label htmlFor={picker.id}>{picker.label}</Label>
+                <Select value={picker.value} onValueChange={picker.onChange}>
+                  <SelectTrigger id={picker.id}><SelectValue placeholder="Select an analysis" /></SelectTrigger>
+                  <SelectContent>
+                    {snapshots.map((snapshot) => (
+                      <SelectItem key={snapshot.id} value={snapshot.id}>{snapshotLabel(snapshot)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+
+          {!diff ? (
+            <p className="text-sm text-muted-foreground">Pick two different analyses to compare.</p>
+          ) : (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead className="text-right">From</TableHead>
+                    <TableHead className="text-right">To</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.metrics.map((change) => (
+                    <TableRow key={change.label}>
+                      <TableCell>{change.label}</TableCell>
+                      <TableCell className="text-right">{change.from.toFixed(1)}</TableCell>
+                      <TableCell className="text-right">{change.to.toFixed(1)}</TableCell>
+                      <TableCell className={`text-right ${change.delta === 0 ? 'text-muted-foreground' : 'font-medium'}`}>
+                        {formatDelta(change.delta, change.unit)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <ListChangeRow label="Keywords" change={diff.keywords} />
+              <ListChangeRow label="Observed traits" change={diff.traits} />
+              <ListChangeRow label="Frequent phrases" change={diff.frequentPhrases} />
+
+              {diff.summaryChanged && (
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="rounded-md bg-muted p-3 text-sm">
+                    <p className="mb-1 font-semibold">Summary (from)</p>
+                    <p>{fromSnapshot!.insights.summary}</p>
+                  </div>
+                  <div className="rounded-md bg-muted p-3 text-sm">
+                    <p className="mb-1 font-semibold">Summary (to)</p>
+                    <p>{toSnapshot!.insights.summary}</p>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
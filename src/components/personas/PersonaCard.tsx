@@ -1,10 +1,11 @@
 import Link from 'next/link';
 import Image from 'next/image';
-import { Bot, MessageSquare, Edit3, Trash2, BarChart2 } from 'lucide-react';
+import { Bot, MessageSquare, Edit3, Trash2, BarChart2, Lock } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import type { Persona } from '@/lib/types';
+import { PERSONA_TRASH_RETENTION_DAYS } from '@/lib/constants';
 import type { AnalyzePersonaInsightsOutput } from '@/ai/flows/analyze-persona-insights';
 import {
   AlertDialog,
@@ -21,6 +22,7 @@ import {
 interface PersonaCardProps {
   persona: Persona;
   onDelete: (id: string) => void;
+  isLocked?: boolean; // Soft-locked because the user is over their persona quota
 }
 
 // Helper to check if insights are in the new structured format
@@ -28,7 +30,7 @@ const isStructuredInsights = (insights: any): insights is AnalyzePersonaInsights
   return typeof insights === 'object' && insights !== null && 'summary' in insights;
 };
 
-export default function PersonaCard({ persona, onDelete }: PersonaCardProps) {
+export default function PersonaCard({ persona, onDelete, isLocked = false }: PersonaCardProps) {
   const handleDelete = () => {
     onDelete(persona.id);
   };
@@ -40,7 +42,7 @@ export default function PersonaCard({ persona, onDelete }: PersonaCardProps) {
       : null;
 
   return (
-    <Card className="flex flex-col overflow-hidden shadow-lg hover:shadow-xl transition-shadow duration-300">
+    <Card className={`flex flex-col overflow-hidden shadow-lg hover:shadow-xl transition-shadow duration-300 ${isLocked ? 'opacity-60' : ''}`}>
       <CardHeader className="flex flex-row items-start gap-4 p-4">
         <Image 
           src={persona.avatarUrl || `https://picsum.photos/seed/${persona.id}/80/80`} 
@@ -59,6 +61,7 @@ export default function PersonaCard({ persona, onDelete }: PersonaCardProps) {
       </CardHeader>
       <CardContent className="p-4 flex-grow">
         <div className="space-y-2 mb-2">
+          {isLocked && <Badge variant="destructive"><Lock className="mr-1 h-3 w-3" /> Locked</Badge>}
           {persona.mbti && <Badge variant="secondary">MBTI: {persona.mbti}</Badge>}
           {persona.age && <Badge variant="secondary">Age: {persona.age}</Badge>}
           {persona.gender && <Badge variant="secondary">Gender: {persona.gender}</Badge>}
@@ -71,11 +74,17 @@ export default function PersonaCard({ persona, onDelete }: PersonaCardProps) {
         )}
       </CardContent>
       <CardFooter className="p-4 bg-muted/50 border-t flex justify-end gap-2">
-        <Link href={`/personas/${persona.id}`} passHref>
-          <Button variant="outline" size="sm">
-            <MessageSquare className="mr-2 h-4 w-4" /> Chat
+        {isLocked ? (
+          <Button variant="outline" size="sm" disabled title="Over your persona quota. Delete a persona or buy more slots to unlock.">
+            <Lock className="mr-2 h-4 w-4" /> Locked
           </Button>
-        </Link>
+        ) : (
+          <Link href={`/personas/${persona.id}`} passHref>
+            <Button variant="outline" size="sm">
+              <MessageSquare className="mr-2 h-4 w-4" /> Chat
+            </Button>
+          </Link>
+        )}
         <AlertDialog>
           <AlertDialogTrigger asChild>
             <Button variant="destructive" size="sm">
@@ -86,8 +95,8 @@ export default function PersonaCard({ persona, onDelete }: PersonaCardProps) {
             <AlertDialogHeader>
               <AlertDialogTitle>Are you sure?</AlertDialogTitle>
               <AlertDialogDescription>
-                This action cannot be undone. This will permanently delete the persona
-                "{persona.name}" and all associated chat history.
+                "{persona.name}" will be moved to the trash. You can restore it with its chat history for{' '}
+                {PERSONA_TRASH_RETENTION_DAYS} days, after which it is permanently deleted.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
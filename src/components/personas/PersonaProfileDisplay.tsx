@@ -3,22 +3,24 @@
 
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { Bot, BarChart2, Loader2, Sparkles, BrainCircuit, Zap, Download, MessageCircleQuestion, FileText, Edit } from 'lucide-react';
+import { Bot, BarChart2, Loader2, Sparkles, BrainCircuit, Zap, Download, MessageCircleQuestion, FileText, Edit, History, ScrollText, SlidersHorizontal } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 
-import type { Persona, ChatMessage, ExportedPersonaData, AnalyzePersonaInsightsOutput, LinguisticFeaturesSchema, InteractionStatsSchema } from '@/lib/types';
+import type { Persona, PersonaDescriptionVersion, PersonaProfile, PersonaInsightSnapshot, ChatMessage, AnalyzePersonaInsightsOutput, LinguisticFeaturesSchema, InteractionStatsSchema } from '@/lib/types';
 import { MBTI_TYPES, GENDERS, type MBTIType, type Gender } from '@/lib/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { analyzePersonaInsights } from '@/ai/flows/analyze-persona-insights';
+import { analyzePersonaInsightsChunked, type AnalysisProgress } from '@/lib/chunked-analysis';
 import { developPersonaPersonality } from '@/ai/flows/develop-persona-flow';
 import { askAboutPersona } from '@/ai/flows/ask-about-persona';
-import { savePersona as savePersonaToDB, getAllChatMessagesForPersona } from '@/lib/store';
+import { savePersona as savePersonaToDB, getAllChatMessagesForPersona, getAllUserChatMessages, getPersonaDescriptionVersions, getPersonaInsightSnapshots, getUserProfileById, savePersonaInsightSnapshot, savePersonaWithDescriptionVersion } from '@/lib/store';
+import { buildUserChatAnalysisSource } from '@/lib/user-chat-history';
+import type { AnalyzePersonaInsightsInput } from '@/ai/flows/analyze-persona-insights';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
   Dialog,
@@ -37,6 +39,14 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { PieChart, Pie, Cell, Tooltip as RechartsTooltip, Legend, ResponsiveContainer, BarChart as RechartsBarChart, XAxis, YAxis, CartesianGrid, Bar } from 'recharts';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import AnalysisProgressIndicator from './AnalysisProgressIndicator';
+import InsightHistory from './InsightHistory';
+import DescriptionHistory from './DescriptionHistory';
+import PersonaProfileEditor from './PersonaProfileEditor';
+import { cleanPersonaProfile } from '@/lib/persona-profile';
+import { buildPersonaExport } from '@/lib/persona-export';
+import { DEVELOPMENT_PROMPT_MAX_CHARS } from '@/lib/constants';
+import { format } from 'date-fns';
 
 
 interface PersonaProfileDisplayProps {
@@ -56,12 +66,14 @@ const editPersonaFormSchema = z.object({
   age: z.coerce.number().int().positive().min(1).max(120).optional(),
   gender: z.union([z.enum(GENDERS), z.literal(SELECT_NONE_VALUE)]),
   category: z.string().max(50).optional().or(z.literal('')),
+  personaDescription: z.string().max(10000, "Description must be 10,000 characters or less.").optional().or(z.literal('')),
 });
 type EditPersonaFormValues = z.infer<typeof editPersonaFormSchema>;
 
 
 export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: PersonaProfileDisplayProps) {
   const [isLoadingInsights, setIsLoadingInsights] = useState(false);
+  const [insightsProgress, setInsightsProgress] = useState<AnalysisProgress | null>(null);
   const [isDevelopingPersonality, setIsDevelopingPersonality] = useState(false);
   const [developmentPrompts, setDevelopmentPrompts] = useState('');
   const [isDevelopDialogActive, setIsDevelopDialogActive] = useState(false); 
@@ -69,11 +81,15 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
   const [userQuestion, setUserQuestion] = useState('');
   const [aiAnswer, setAiAnswer] = useState('');
   const [isAskingQuestion, setIsAskingQuestion] = useState(false);
+  const [insightSnapshots, setInsightSnapshots] = useState<PersonaInsightSnapshot[]>([]);
+  const [descriptionVersions, setDescriptionVersions] = useState<PersonaDescriptionVersion[]>([]);
+  const [revertingVersionId, setRevertingVersionId] = useState<string | null>(null);
 
   const { toast } = useToast();
-  const { userId } = useAuth();
+  const { userId, getIdToken } = useAuth();
 
   const isChatDerived = persona.originType === 'chat-derived';
+  const isDevelopmentPromptTooLong = developmentPrompts.trim().length > DEVELOPMENT_PROMPT_MAX_CHARS;
 
   const editForm = useForm<EditPersonaFormValues>({
     resolver: zodResolver(editPersonaFormSchema),
@@ -83,6 +99,7 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
       age: persona.age,
       gender: persona.gender || SELECT_NONE_VALUE,
       category: persona.category || '',
+      personaDescription: persona.personaDescription || '',
     },
   });
 
@@ -94,10 +111,23 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
         age: persona.age,
         gender: persona.gender || SELECT_NONE_VALUE,
         category: persona.category || '',
+        personaDescription: persona.personaDescription || '',
       });
     }
   }, [persona, editForm, isEditDialogActive]);
 
+  useEffect(() => {
+    if (!userId) return;
+    let isCurrent = true;
+    getPersonaInsightSnapshots(userId, persona.id).then((snapshots) => {
+      if (isCurrent) setInsightSnapshots(snapshots);
+    });
+    getPersonaDescriptionVersions(userId, persona.id).then((versions) => {
+      if (isCurrent) setDescriptionVersions(versions);
+    });
+    return () => { isCurrent = false; };
+  }, [userId, persona.id]);
+
 
   const handleAnalyzeInsights = async () => {
     if (!userId) {
@@ -105,11 +135,7 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
         return;
     }
     
-    const sourceHistoryForAnalysis = persona.originType === 'user-created' 
-      ? persona.chatHistory
-      : null; 
-
-    if (!sourceHistoryForAnalysis && persona.originType === 'user-created') {
+    if (persona.originType === 'user-created' && !persona.chatHistory) {
         toast({
             title: 'Cannot Analyze',
             description: 'Seed chat history is missing for this user-created persona.',
@@ -117,28 +143,61 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
         });
         return;
     }
-    if (persona.originType === 'chat-derived') {
-         toast({
-            title: 'Analysis Context',
-            description: 'Insights for chat-derived personas are typically generated from the source chat. This button primarily re-analyzes seed data for user-created personas.',
-            variant: 'default'
+    if (persona.originType === 'chat-derived' && (!persona.derivedFromChatId || !persona.derivedRepresentingUserId)) {
+        toast({
+            title: 'Cannot Analyze',
+            description: 'The source chat for this persona could not be found.',
+            variant: 'destructive'
         });
-        return; 
+        return;
     }
 
     setIsLoadingInsights(true);
     try {
-      const insightsResponse = await analyzePersonaInsights({
-        chatHistory: sourceHistoryForAnalysis!, 
-        mbtiType: persona.mbti,
-        age: persona.age,
-        gender: persona.gender,
-        analysisContext: 'seed-data', 
-      });
-
-      const updatedPersona = { ...persona, personalityInsights: insightsResponse };
+      let analysisInput: AnalyzePersonaInsightsInput;
+      let sourceChatMessagesCount = persona.sourceChatMessagesCount;
+      if (persona.originType === 'chat-derived') {
+        // Chat-derived personas are analyzed from the source conversation, measuring only the contact's messages.
+        const [threadMessages, contactProfile] = await Promise.all([
+          getAllUserChatMessages(persona.derivedFromChatId!),
+          getUserProfileById(persona.derivedRepresentingUserId!),
+        ]);
+        const source = buildUserChatAnalysisSource(threadMessages, {
+          id: persona.derivedRepresentingUserId!,
+          name: contactProfile?.name || persona.name,
+        });
+        if (source.contactMessageCount === 0) {
+          toast({ title: 'Cannot Analyze', description: 'The source chat has no messages from this contact yet.', variant: 'destructive' });
+          return;
+        }
+        analysisInput = {
+          chatHistory: source.chatHistory,
+          targetSpeaker: source.contactSpeaker,
+          messageDates: source.messageDates,
+          analysisContext: 'ai-interaction-log',
+        };
+        sourceChatMessagesCount = source.contactMessageCount;
+      } else {
+        analysisInput = {
+          chatHistory: persona.chatHistory!,
+          mbtiType: persona.mbti,
+          age: persona.age,
+          gender: persona.gender,
+          targetSpeaker: persona.seedSpeaker,
+          messageDates: persona.seedDateRange ? [persona.seedDateRange.first, persona.seedDateRange.last] : undefined,
+          analysisContext: 'seed-data',
+        };
+      }
+      const insightsResponse = await analyzePersonaInsightsChunked(analysisInput, getIdToken, setInsightsProgress);
+
+      const updatedPersona = { ...persona, personalityInsights: insightsResponse, sourceChatMessagesCount };
       await savePersonaToDB(userId, updatedPersona); 
       onPersonaUpdate(updatedPersona); 
+      // Every run is also kept as a snapshot so drift can be tracked; the persona itself only holds the latest.
+      // A failed snapshot write is logged by the store and does not fail the analysis.
+      await savePersonaInsightSnapshot(userId, persona.id, insightsResponse)
+        .then((snapshot) => setInsightSnapshots((snapshots) => [...snapshots, snapshot]))
+        .catch(() => undefined);
 
       toast({
         title: 'Insights Generated',
@@ -153,6 +212,7 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
       });
     } finally {
       setIsLoadingInsights(false);
+      setInsightsProgress(null);
     }
   };
 
@@ -165,19 +225,38 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
         });
         return;
     }
+    // The prompt is stored with the resulting description version, and the rules reject longer ones.
+    if (isDevelopmentPromptTooLong) {
+      toast({
+        title: 'Prompt Too Long',
+        description: `Development prompts can be at most ${DEVELOPMENT_PROMPT_MAX_CHARS.toLocaleString()} characters.`,
+        variant: 'destructive',
+      });
+      return;
+    }
     setIsDevelopingPersonality(true);
     try {
       const response = await developPersonaPersonality({
+        personaId: persona.id,
         currentPersonaDescription: persona.personaDescription || `A persona named ${persona.name}`,
+        currentProfile: persona.profile,
         developmentPrompts: developmentPrompts,
         name: persona.name,
         mbtiType: persona.mbti,
         age: persona.age,
         gender: persona.gender,
-      });
+      }, await getIdToken());
 
-      const updatedPersona = { ...persona, personaDescription: response.newPersonaDescription };
-      await savePersonaToDB(userId, updatedPersona); 
+      const updatedPersona = {
+        ...persona,
+        personaDescription: response.newPersonaDescription,
+        profile: cleanPersonaProfile(response.newProfile),
+      };
+      const addedVersions = await savePersonaWithDescriptionVersion(userId, updatedPersona, persona, {
+        author: 'development-prompt',
+        prompt: developmentPrompts.trim(),
+      });
+      setDescriptionVersions((versions) => [...versions, ...addedVersions]);
       onPersonaUpdate(updatedPersona); 
       
       toast({
@@ -212,8 +291,10 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
         age: data.age || undefined,
         gender: data.gender === SELECT_NONE_VALUE ? undefined : data.gender as Gender,
         category: data.category || undefined,
+        personaDescription: data.personaDescription?.trim() || persona.personaDescription,
       };
-      await savePersonaToDB(userId, updatedPersona);
+      const addedVersions = await savePersonaWithDescriptionVersion(userId, updatedPersona, persona, { author: 'manual' });
+      setDescriptionVersions((versions) => [...versions, ...addedVersions]);
       onPersonaUpdate(updatedPersona);
       toast({ title: 'Persona Updated', description: `${persona.name}'s details have been updated.` });
       setIsEditDialogActive(false);
@@ -223,6 +304,48 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
     }
   };
 
+  const handleSaveProfile = async (profile: PersonaProfile) => {
+    if (!userId) {
+      toast({ title: 'Error', description: 'User not logged in.', variant: 'destructive' });
+      return;
+    }
+    try {
+      const updatedPersona: Persona = { ...persona, profile: cleanPersonaProfile(profile) };
+      const addedVersions = await savePersonaWithDescriptionVersion(userId, updatedPersona, persona, { author: 'manual' });
+      setDescriptionVersions((versions) => [...versions, ...addedVersions]);
+      onPersonaUpdate(updatedPersona);
+      toast({ title: 'Profile Updated', description: `${persona.name}'s communication profile has been updated.` });
+    } catch (error) {
+      console.error('Failed to update persona profile:', error);
+      toast({ title: 'Error', description: 'Could not update the persona profile.', variant: 'destructive' });
+      throw error;
+    }
+  };
+
+  const handleRevertDescription = async (version: PersonaDescriptionVersion) => {
+    if (!userId) {
+      toast({ title: 'Error', description: 'User not logged in.', variant: 'destructive' });
+      return;
+    }
+    setRevertingVersionId(version.id);
+    try {
+      // Reverting records a new version, so the state being replaced can itself be restored later.
+      const updatedPersona = { ...persona, personaDescription: version.description, profile: version.profile ?? persona.profile };
+      const addedVersions = await savePersonaWithDescriptionVersion(userId, updatedPersona, persona, {
+        author: 'manual',
+        revertedFromVersionId: version.id,
+      });
+      setDescriptionVersions((versions) => [...versions, ...addedVersions]);
+      onPersonaUpdate(updatedPersona);
+      toast({ title: 'Version Restored', description: `${persona.name}'s description and profile were reverted to the version from ${format(new Date(version.createdAt), 'PP p')}.` });
+    } catch (error) {
+      console.error('Failed to revert persona version:', error);
+      toast({ title: 'Error', description: 'Could not revert the persona description and profile.', variant: 'destructive' });
+    } finally {
+      setRevertingVersionId(null);
+    }
+  };
+
   const handleAskQuestion = async (question?: string) => {
     const finalQuestion = question || userQuestion;
     if (!finalQuestion.trim()) {
@@ -237,9 +360,10 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
     setAiAnswer('');
     try {
         const response = await askAboutPersona({
+            personaId: persona.id,
             personaDescription: persona.personaDescription,
             question: finalQuestion,
-        });
+        }, await getIdToken());
         setAiAnswer(response.answer);
         if(!question) setUserQuestion(''); 
     } catch (error) {
@@ -255,10 +379,7 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
     if(!userId) return;
     try {
       const chatMessagesWithAI = await getAllChatMessagesForPersona(userId, persona.id);
-      const exportedData: ExportedPersonaData = {
-        personaDetails: persona,
-        chatMessagesWithAI: chatMessagesWithAI,
-      };
+      const exportedData = buildPersonaExport(persona, chatMessagesWithAI);
       const jsonString = JSON.stringify(exportedData, null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
@@ -336,7 +457,7 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
               <DialogContent className="sm:max-w-[525px]">
                 <DialogHeader>
                   <DialogTitle>Edit {persona.name}'s Details</DialogTitle>
-                  <DialogDescription>Update the basic information for this persona.</DialogDescription>
+                  <DialogDescription>Update the basic information and description for this persona. Description changes are kept in its history.</DialogDescription>
                 </DialogHeader>
                 <Form {...editForm}>
                   <form onSubmit={editForm.handleSubmit(handleEditPersonaDetails)} className="space-y-4 py-4">
@@ -362,6 +483,17 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
                         </FormItem>
                       )}
                     />
+                    <FormField
+                      control={editForm.control}
+                      name="personaDescription"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Persona Description</FormLabel>
+                          <FormControl><Textarea className="min-h-[120px]" placeholder="No description generated yet." {...field} /></FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                        <FormField
                           control={editForm.control}
@@ -480,6 +612,11 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
                             onChange={(e) => setDevelopmentPrompts(e.target.value)}
                             className="min-h-[100px] mt-1"
                           />
+                          {isDevelopmentPromptTooLong && (
+                            <p className="text-xs text-destructive mt-1">
+                              {developmentPrompts.trim().length.toLocaleString()} / {DEVELOPMENT_PROMPT_MAX_CHARS.toLocaleString()} characters. Shorten the prompt to continue.
+                            </p>
+                          )}
                         </div>
                       </div>
                       <DialogFooter>
@@ -489,7 +626,7 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
                         <Button 
                           type="button" 
                           onClick={handleDevelopPersonality}
-                          disabled={isDevelopingPersonality || !developmentPrompts.trim()}
+                          disabled={isDevelopingPersonality || !developmentPrompts.trim() || isDevelopmentPromptTooLong}
                         >
                           {isDevelopingPersonality ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4"/>}
                           Update Personality
@@ -501,6 +638,21 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
               </AccordionContent>
             </AccordionItem>
 
+            {/* Structured Profile Section */}
+            <AccordionItem value="persona-profile">
+              <AccordionTrigger>
+                <h3 className="text-sm font-semibold text-muted-foreground flex items-center">
+                  <SlidersHorizontal className="h-4 w-4 mr-2 text-primary" /> Communication Profile
+                </h3>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  These traits are given to the AI alongside the description every time {persona.name} replies.
+                </p>
+                <PersonaProfileEditor profile={persona.profile} onSave={handleSaveProfile} disabled={!userId} />
+              </AccordionContent>
+            </AccordionItem>
+
             {/* Seed Chat History Section */}
             {persona.originType === 'user-created' && persona.chatHistory && (
                  <AccordionItem value="seed-history">
@@ -569,7 +721,7 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
                     </h3>
                  </AccordionTrigger>
                  <AccordionContent className="space-y-4">
-                    {(persona.originType === 'user-created' || (persona.originType === 'chat-derived' && displayableInsights)) && (
+                    {(persona.originType === 'user-created' || persona.derivedFromChatId) && (
                     <div className="flex justify-end">
                         <Button 
                             onClick={handleAnalyzeInsights} 
@@ -650,17 +802,25 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
                         <CardContent className="space-y-1 text-sm">
                             <p>Avg. Message/Entry Length: <strong>{displayableInsights.communicationStyle.averageMessageLength.toFixed(1)} words</strong></p>
                             <p>Question Rate: <strong>{displayableInsights.communicationStyle.questionRate.toFixed(1)}%</strong></p>
-                            <p>Emoji Usage Score: <strong>{displayableInsights.communicationStyle.useOfEmojis.toFixed(0)}/100</strong></p>
+                            <p>Messages with Emojis: <strong>{displayableInsights.communicationStyle.useOfEmojis.toFixed(1)}%</strong></p>
                         </CardContent>
                         </Card>
 
                         {displayableInsights.linguisticFeatures && (
                             <Card>
-                                <CardHeader><CardTitle className="text-base">Linguistic Features (from seed data)</CardTitle></CardHeader>
+                                <CardHeader><CardTitle className="text-base">Linguistic Features (from {isChatDerived ? 'source chat' : 'seed data'})</CardTitle></CardHeader>
                                 <CardContent className="space-y-1 text-sm">
                                     <p>Total Word Count: <strong>{displayableInsights.linguisticFeatures.wordCount}</strong></p>
                                     <p>Unique Word Count: <strong>{displayableInsights.linguisticFeatures.uniqueWordCount}</strong></p>
                                     <p>Avg. Sentence Length: <strong>{displayableInsights.linguisticFeatures.averageSentenceLength.toFixed(1)} words</strong></p>
+                                    {displayableInsights.linguisticFeatures.frequentPhrases && displayableInsights.linguisticFeatures.frequentPhrases.length > 0 && (
+                                        <div className="pt-1">
+                                            <p>Frequent Phrases:</p>
+                                            <div className="flex flex-wrap gap-2 mt-1">
+                                                {displayableInsights.linguisticFeatures.frequentPhrases.map(phrase => <Badge key={phrase} variant="outline">&ldquo;{phrase}&rdquo;</Badge>)}
+                                            </div>
+                                        </div>
+                                    )}
                                 </CardContent>
                             </Card>
                         )}
@@ -670,8 +830,11 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
                                 <CardHeader><CardTitle className="text-base">Interaction Stats (if applicable)</CardTitle></CardHeader>
                                 <CardContent className="space-y-1 text-sm">
                                     {typeof displayableInsights.interactionStats.totalMessages === 'number' && <p>Total Messages: <strong>{displayableInsights.interactionStats.totalMessages}</strong></p>}
-                                    {typeof displayableInsights.interactionStats.userMessagesCount === 'number' && <p>User Messages: <strong>{displayableInsights.interactionStats.userMessagesCount}</strong></p>}
-                                    {typeof displayableInsights.interactionStats.aiMessagesCount === 'number' && <p>AI Messages: <strong>{displayableInsights.interactionStats.aiMessagesCount}</strong></p>}
+                                    {typeof displayableInsights.interactionStats.userMessagesCount === 'number' && <p>{isChatDerived ? 'Your Messages' : 'User Messages'}: <strong>{displayableInsights.interactionStats.userMessagesCount}</strong></p>}
+                                    {typeof displayableInsights.interactionStats.aiMessagesCount === 'number' && <p>{isChatDerived ? 'Contact Messages' : 'AI Messages'}: <strong>{displayableInsights.interactionStats.aiMessagesCount}</strong></p>}
+                                    {displayableInsights.interactionStats.firstMessageDate && <p>First Message: <strong>{format(new Date(displayableInsights.interactionStats.firstMessageDate), 'PP')}</strong></p>}
+                                    {displayableInsights.interactionStats.lastMessageDate && <p>Last Message: <strong>{format(new Date(displayableInsights.interactionStats.lastMessageDate), 'PP')}</strong></p>}
+                                    {typeof displayableInsights.interactionStats.averageMessagesPerDay === 'number' && <p>Messages per Day: <strong>{displayableInsights.interactionStats.averageMessagesPerDay.toFixed(1)}</strong></p>}
                                 </CardContent>
                             </Card>
                         )}
@@ -708,21 +871,50 @@ export default function PersonaProfileDisplay({ persona, onPersonaUpdate }: Pers
                         <p className="text-xs text-muted-foreground mb-2">
                             {persona.originType === 'user-created' 
                                 ? 'Click "Refresh/Generate Insights" to analyze and visualize persona statistics from seed data.'
-                                : 'Interact with the original contact to update this persona\'s insights.'
+                                : 'Click "Generate Insights" to analyze your conversation with this contact. Only their messages are measured.'
                             }
                         </p>
                         </div>
                     )
                     )}
                     {isLoadingInsights && (
-                    <div className="flex justify-center items-center p-6">
-                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                        <p className="ml-2 text-muted-foreground">Generating insights...</p>
+                    <div className="p-6">
+                        <AnalysisProgressIndicator label="Generating insights..." progress={insightsProgress} />
                     </div>
                     )}
                  </AccordionContent>
             </AccordionItem>
 
+            {/* Description History Section */}
+            <AccordionItem value="description-history">
+                 <AccordionTrigger>
+                     <h3 className="text-sm font-semibold text-muted-foreground flex items-center">
+                        <ScrollText className="h-4 w-4 mr-2 text-primary" /> Description History
+                    </h3>
+                 </AccordionTrigger>
+                 <AccordionContent>
+                    <DescriptionHistory
+                        versions={descriptionVersions}
+                        currentDescription={persona.personaDescription}
+                        currentProfile={persona.profile}
+                        onRevert={handleRevertDescription}
+                        revertingVersionId={revertingVersionId}
+                    />
+                 </AccordionContent>
+            </AccordionItem>
+
+            {/* Insight History & Drift Section */}
+            <AccordionItem value="insight-history">
+                 <AccordionTrigger>
+                     <h3 className="text-sm font-semibold text-muted-foreground flex items-center">
+                        <History className="h-4 w-4 mr-2 text-primary" /> Insight History & Drift
+                    </h3>
+                 </AccordionTrigger>
+                 <AccordionContent>
+                    <InsightHistory snapshots={insightSnapshots} />
+                 </AccordionContent>
+            </AccordionItem>
+
           </Accordion>
         </CardContent>
       </ScrollArea>
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Loader2, Pencil, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PERSONA_FORMALITY_LEVELS, PERSONA_MESSAGE_LENGTHS, type PersonaProfile } from '@/lib/types';
+import { PERSONA_FORMALITY_LABELS, PERSONA_MESSAGE_LENGTH_LABELS, PERSONA_PROFILE_LIST_LIMIT } from '@/lib/persona-profile';
+
+interface PersonaProfileEditorProps {
+  profile?: PersonaProfile;
+  onSave: (profile: PersonaProfile) => Promise<void>;
+  disabled?: boolean;
+}
+
+type ProfileField = keyof PersonaProfile;
+type FieldKind = 'text' | 'list' | 'formality' | 'messageLength';
+
+const FIELDS: { key: ProfileField; label: string; kind: FieldKind; placeholder?: string }[] = [
+  { key: 'tone', label: 'Tone', kind: 'text', placeholder: 'e.g. warm and teasing' },
+  { key: 'formality', label: 'Formality', kind: 'formality' },
+  { key: 'vocabulary', label: 'Vocabulary', kind: 'text', placeholder: 'e.g. lots of gaming slang, mixes in Spanish' },
+  { key: 'catchphrases', label: 'Catchphrases', kind: 'list', placeholder: 'One per line' },
+  { key: 'emojiHabits', label: 'Emoji habits', kind: 'text', placeholder: 'e.g. ends most messages with 😂' },
+  { key: 'messageLength', label: 'Message length', kind: 'messageLength' },
+  { key: 'typingQuirks', label: 'Typing quirks', kind: 'list', placeholder: 'One per line, e.g. writes in all lowercase' },
+  { key: 'interests', label: 'Interests', kind: 'list', placeholder: 'One per line' },
+  { key: 'topicsToAvoid', label: 'Topics to avoid', kind: 'list', placeholder: 'One per line' },
+];
+
+const SELECT_UNSET_VALUE = '__UNSET__';
+
+const toDraft = (profile: PersonaProfile | undefined, key: ProfileField): string => {
+  const value = profile?.[key];
+  if (Array.isArray(value)) return value.join('\n');
+  return value ?? '';
+};
+
+const fromDraft = (kind: FieldKind, draft: string): PersonaProfile[ProfileField] => {
+  if (kind === 'list') return draft.split('\n');
+  if (kind === 'formality' || kind === 'messageLength') return draft === SELECT_UNSET_VALUE ? undefined : draft;
+  return draft;
+};
+
+function FieldValue({ profile, field }: { profile?: PersonaProfile; field: (typeof FIELDS)[number] }) {
+  const value = profile?.[field.key];
+  if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+    return <span className="text-muted-foreground italic">Not set</span>;
+  }
+  if (Array.isArray(value)) {
+    return (
+      <div className="flex flex-wrap gap-1">
+        {value.map((item) => <Badge key={item} variant="secondary">{item}</Badge>)}
+      </div>
+    );
+  }
+  if (field.kind === 'formality') return <span>{PERSONA_FORMALITY_LABELS[value as keyof typeof PERSONA_FORMALITY_LABELS]}</span>;
+  if (field.kind === 'messageLength') return <span>{PERSONA_MESSAGE_LENGTH_LABELS[value as keyof typeof PERSONA_MESSAGE_LENGTH_LABELS]}</span>;
+  return <span>{value}</span>;
+}
+
+// Shows the structured persona profile and edits one field at a time. The caller cleans and saves the result.
+export default function PersonaProfileEditor({ profile, onSave, disabled }: PersonaProfileEditorProps) {
+  const [editingField, setEditingField] = useState<ProfileField | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (key: ProfileField) => {
+    setEditingField(key);
+    setDraft(toDraft(profile, key) || (key === 'formality' || key === 'messageLength' ? SELECT_UNSET_VALUE : ''));
+  };
+
+  const handleSave = async (field: (typeof FIELDS)[number]) => {
+    setIsSaving(true);
+    try {
+      await onSave({ ...profile, [field.key]: fromDraft(field.kind, draft) });
+      setEditingField(null);
+    } catch {
+      // The caller reports the failure; the field stays open so the draft is not lost.
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <dl className="space-y-3 text-sm">
+      {FIELDS.map((field) => (
+        <div key={field.key} className="rounded-md border p-3">
+          <div className="flex items-center justify-between gap-2">
+            <dt className="font-medium">{field.label}</dt>
+            {editingField !== field.key && (
+              <Button variant="ghost" size="sm" onClick={() => startEditing(field.key)} disabled={disabled || editingField !== null}>
+                <Pencil className="h-3 w-3 mr-1" /> Edit
+              </Button>
+            )}
+          </div>
+          {editingField === field.key ? (
+            <dd className="mt-2 space-y-2">
+              {field.kind === 'text' && (
+                <Input value={draft} onChange={(e) => setDraft(e.target.value)} placeholder={field.placeholder} maxLength={500} />
+              )}
+              {field.kind === 'list' && (
+                <>
+                  <Textarea value={draft} onChange={(e) => setDraft(e.target.value)} placeholder={field.placeholder} className="min-h-[80px]" />
+                  <p className="text-xs text-muted-foreground">Up to {PERSONA_PROFILE_LIST_LIMIT} entries; empty lines are ignored.</p>
+                </>
+              )}
+              {(field.kind === 'formality' || field.kind === 'messageLength') && (
+                <Select value={draft} onValueChange={setDraft}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SELECT_UNSET_VALUE}>Not set</SelectItem>
+                    {field.kind === 'formality'
+                      ? PERSONA_FORMALITY_LEVELS.map((level) => <SelectItem key={level} value={level}>{PERSONA_FORMALITY_LABELS[level]}</SelectItem>)
+                      : PERSONA_MESSAGE_LENGTHS.map((length) => <SelectItem key={length} value={length}>{PERSONA_MESSAGE_LENGTH_LABELS[length]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setEditingField(null)} disabled={isSaving}>
+                  <X className="h-3 w-3 mr-1" /> Cancel
+                </Button>
+                <Button size="sm" onClick={() => handleSave(field)} disabled={isSaving}>
+                  {isSaving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Check className="h-3 w-3 mr-1" />} Save
+                </Button>
+              </div>
+            </dd>
+          ) : (
+            <dd className="mt-1"><FieldValue profile={profile} field={field} /></dd>
+          )}
+        </div>
+      ))}
+    </dl>
+  );
+}
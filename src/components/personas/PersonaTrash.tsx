@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, RotateCcw, Trash, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { getTrashedPersonas, purgeExpiredTrashedPersonas, purgePersona } from '@/lib/store';
+import { restorePersonaAction } from '@/app/actions/personas/restore-persona.action';
+import { PERSONA_TRASH_RETENTION_DAYS } from '@/lib/constants';
+import type { TrashedPersona } from '@/lib/types';
+
+// The dashboard's trash: deleted personas can be restored until their purge date or deleted for good. The server
+// purges the ones whose restore window has passed daily; opening the dashboard also purges them straight away.
+export default function PersonaTrash() {
+  const { userId, getIdToken } = useAuth();
+  const { toast } = useToast();
+  const [trashedPersonas, setTrashedPersonas] = useState<TrashedPersona[]>([]);
+  const [busyPersonaId, setBusyPersonaId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+    purgeExpiredTrashedPersonas(userId);
+    return getTrashedPersonas(userId, setTrashedPersonas);
+  }, [userId]);
+
+  const handleRestore = async ({ persona }: TrashedPersona) => {
+    setBusyPersonaId(persona.id);
+    try {
+      const result = await restorePersonaAction(persona.id, await getIdToken());
+      if (result.quotaExceeded) {
+        toast({
+          title: 'Persona Limit Reached',
+          description: result.message,
+          variant: 'destructive',
+          duration: 7000,
+          action: (
+            <Link href="/personas/new" legacyBehavior>
+              <ToastAction altText="Upgrade Plan">Upgrade</ToastAction>
+            </Link>
+          ),
+        });
+        return;
+      }
+      if (!result.success) {
+        toast({ title: 'Restore Failed', description: result.message, variant: 'destructive' });
+        return;
+      }
+      toast({ title: 'Persona Restored', description: `${persona.name} and its chats have been restored.` });
+    } catch (error) {
+      console.error(`Error restoring persona ${persona.id}:`, error);
+      toast({ title: 'Restore Failed', description: 'Could not reach the server. Please try again.', variant: 'destructive' });
+    } finally {
+      setBusyPersonaId(null);
+    }
+  };
+
+  const handlePurge = async ({ persona }: TrashedPersona) => {
+    if (!userId) return;
+    setBusyPersonaId(persona.id);
+    try {
+      await purgePersona(userId, persona.id);
+      toast({ title: 'Persona Deleted', description: `${persona.name} has been permanently deleted.` });
+    } catch (error) {
+      toast({ title: 'Error Deleting Persona', description: (error as Error).message || 'Could not delete persona.', variant: 'destructive' });
+    } finally {
+      setBusyPersonaId(null);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={!userId}>
+          <Trash className="mr-2 h-5 w-5" /> Trash{trashedPersonas.length > 0 && ` (${trashedPersonas.length})`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted personas are kept for {PERSONA_TRASH_RETENTION_DAYS} days and do not count toward your persona
+            limit. After that they are permanently deleted with all of their chats and history.
+          </DialogDescription>
+        </DialogHeader>
+        {trashedPersonas.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">The trash is empty.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh]">
+            <ul className="space-y-2 pr-2">
+              {trashedPersonas.map((trashedPersona) => (
+                <li key={trashedPersona.persona.id} className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{trashedPersona.persona.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {formatDistanceToNow(new Date(trashedPersona.deletedAt), { addSuffix: true })} · purged{' '}
+                      {formatDistanceToNow(new Date(trashedPersona.purgeAfter), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(trashedPersona)} disabled={busyPersonaId !== null}>
+                      {busyPersonaId === trashedPersona.persona.id ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-1 h-4 w-4" />}
+                      Restore
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handlePurge(trashedPersona)} disabled={busyPersonaId !== null}>
+                      <Trash2 className="mr-1 h-4 w-4" /> Delete Forever
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { exportAccountDataAction } from '@/app/actions/account/export-account-data.action';
+import { deleteAccountAction } from '@/app/actions/account/delete-account.action';
+
+const DELETE_CONFIRMATION = 'DELETE';
+
+// Downloads everything stored for the account as one JSON archive, and permanently deletes the account.
+export default function AccountDataSettings() {
+  const { userProfile, getIdToken, logout } = useAuth();
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportAccountDataAction(await getIdToken());
+      if (!result.success || !result.archive) {
+        throw new Error(result.message);
+      }
+      const blob = new Blob([JSON.stringify(result.archive, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `account_export_${result.archive.exportedAt.slice(0, 10)}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast({ title: 'Export Successful', description: 'All of your account data has been downloaded.' });
+    } catch (error) {
+      console.error('Error exporting account data:', error);
+      toast({ title: 'Export Failed', description: (error as Error).message || 'Could not export your data.', variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      const result = await deleteAccountAction(await getIdToken());
+      if (!result.success) {
+        toast({ title: 'Account Not Deleted', description: result.message, variant: 'destructive' });
+        setIsDeleting(false);
+        return;
+      }
+      toast({ title: 'Account Deleted', description: result.message });
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      toast({ title: 'Account Not Deleted', description: 'Could not reach the server. Please try again.', variant: 'destructive' });
+      setIsDeleting(false);
+      return;
+    }
+    await logout();
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-muted-foreground">Your Data</p>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || !userProfile}>
+          {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export All Data
+        </Button>
+        <AlertDialog onOpenChange={(open) => { if (!open) setConfirmation(''); }}>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" className="text-destructive" disabled={!userProfile}>
+              <Trash2 className="mr-2 h-4 w-4" /> Delete Account
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+              <AlertDialogDescription>
+                This permanently deletes your profile, contacts, all personas and their AI chats, and every conversation
+                you have had with other users (for them as well). An active Pro subscription is canceled. Purchase
+                records are kept for billing. This cannot be undone, so consider exporting your data first.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-1">
+              <Label htmlFor="delete-account-confirmation">Type {DELETE_CONFIRMATION} to confirm</Label>
+              <Input
+                id="delete-account-confirmation"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+              <Button variant="destructive" onClick={handleDelete} disabled={isDeleting || confirmation !== DELETE_CONFIRMATION}>
+                {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Delete Account
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
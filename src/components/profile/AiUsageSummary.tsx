@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Loader2, Activity } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { getAiUsage } from '@/lib/store';
+import { getAiUsageLimits, getPeriodTotals, getTotalTokens } from '@/lib/ai-usage';
+import type { AiUsagePlan } from '@/lib/constants';
+import type { AiUsageSnapshot, AiUsageTotals } from '@/lib/types';
+
+interface AiUsageSummaryProps {
+  userId: string;
+  plan: AiUsagePlan;
+}
+
+interface UsageRowProps {
+  label: string;
+  used: number;
+  limit: number;
+}
+
+function UsageRow({ label, used, limit }: UsageRowProps) {
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className={percent >= 100 ? 'text-destructive font-medium' : 'text-muted-foreground'}>
+          {used.toLocaleString()} / {limit.toLocaleString()}
+        </span>
+      </div>
+      <Progress value={percent} className="h-2" />
+    </div>
+  );
+}
+
+const averageLatencySeconds = (totals: AiUsageTotals): string =>
+  totals.calls > 0 ? (totals.totalLatencyMs / totals.calls / 1000).toFixed(1) : '0.0';
+
+export default function AiUsageSummary({ userId, plan }: AiUsageSummaryProps) {
+  const [usage, setUsage] = useState<AiUsageSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isActive = true;
+    setIsLoading(true);
+    getAiUsage(userId).then((snapshot) => {
+      if (!isActive) return;
+      setUsage(snapshot);
+      setIsLoading(false);
+    });
+    return () => { isActive = false; };
+  }, [userId]);
+
+  const limits = getAiUsageLimits(plan);
+  const daily = getPeriodTotals(usage?.daily);
+  const monthly = getPeriodTotals(usage?.monthly);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+        <Activity className="h-4 w-4" /> AI Usage <span className="capitalize">({plan} plan)</span>
+      </p>
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : (
+        <div className="space-y-3">
+          <UsageRow label="AI calls today" used={daily.calls} limit={limits.dailyCalls} />
+          <UsageRow label="Tokens today" used={getTotalTokens(daily)} limit={limits.dailyTokens} />
+          <UsageRow label="AI calls this month" used={monthly.calls} limit={limits.monthlyCalls} />
+          <UsageRow label="Tokens this month" used={getTotalTokens(monthly)} limit={limits.monthlyTokens} />
+          <p className="text-xs text-muted-foreground">
+            This month: {monthly.inputTokens.toLocaleString()} input / {monthly.outputTokens.toLocaleString()} output tokens,
+            {' '}average response time {averageLatencySeconds(monthly)}s. Limits reset daily at midnight UTC and on the 1st of each month.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
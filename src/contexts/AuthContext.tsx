@@ -16,16 +16,25 @@ import {
 } from 'firebase/auth';
 import { auth, db } from '@/lib/firebase';
 import { ref, set, get, update } from 'firebase/database';
-import type { UserProfile } from '@/lib/types';
+import type { UserProfile, UserProfileUpdates, UserEntitlements } from '@/lib/types';
 import type { AuthFormValues, SignupAuthFormValues, LoginAuthFormValues } from '@/components/auth/AuthForm';
-import { USERS_PATH, updateUserProfileInDB as updateUserProfileInDBStore } from '@/lib/store';
+import {
+  USERS_PATH,
+  ENTITLEMENTS_PATH,
+  updateUserProfileInDB as updateUserProfileInDBStore,
+  subscribeToUserEntitlements,
+  getUserSecrets,
+  saveUserGeminiApiKey,
+} from '@/lib/store';
 import { useToast } from '@/hooks/use-toast';
 import { FREE_PERSONA_LIMIT } from '@/lib/constants';
+import { getEffectivePersonaQuota } from '@/lib/plans';
 
 interface AuthContextType {
   user: FirebaseUser | null;
   userId: string | null;
   userProfile: UserProfile | null;
+  entitlements: UserEntitlements | null;
   isEmailVerified: boolean;
   loadingAuth: boolean;
   loginWithEmail: (values: LoginAuthFormValues) => Promise<void>;
@@ -34,6 +43,7 @@ interface AuthContextType {
   logout: () => Promise<void>;
   resendVerificationEmail: () => Promise<void>;
   updateCurrentProfile: (updates: { name?: string; avatarUrl?: string; geminiApiKey?: string }) => Promise<void>;
+  getIdToken: () => Promise<string | null>;
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -42,6 +52,7 @@ export function AuthProvider({ children }: PropsWithChildren) {
   const [user, setUser] = useState<FirebaseUser | null>(null);
   const [userId, setUserId] = useState<string | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [entitlements, setEntitlements] = useState<UserEntitlements | null>(null);
   const [isEmailVerified, setIsEmailVerified] = useState<boolean>(false);
   const [loadingAuth, setLoadingAuth] = useState(true);
   const router = useRouter();
@@ -60,14 +71,23 @@ export function AuthProvider({ children }: PropsWithChildren) {
     const userNodeRef = ref(db, `${USERS_PATH}/${firebaseUser.uid}`);
     
     try {
-      const snapshot = await get(userNodeRef);
+      const [snapshot, entitlementsSnapshot, secrets] = await Promise.all([
+        get(userNodeRef),
+        get(ref(db, `${ENTITLEMENTS_PATH}/${firebaseUser.uid}`)),
+        getUserSecrets(firebaseUser.uid),
+      ]);
+      // The quota lives in the server-only entitlements node; it is kept on the in-memory profile for convenience.
+      const userEntitlements = entitlementsSnapshot.val() as UserEntitlements | null;
+      const personaQuota = getEffectivePersonaQuota(userEntitlements);
       const now = new Date().toISOString();
       const emailNamePart = firebaseUser.email ? firebaseUser.email.split('@')[0] : `User${firebaseUser.uid.substring(0,5)}`;
       
       let profileData: UserProfile;
 
       if (snapshot.exists()) {
-        const existingProfile = snapshot.val() as UserProfile;
+        // A key found on the profile node was saved there by an earlier version; it is moved to the secrets node below.
+        const { geminiApiKey: legacyGeminiApiKey, ...existingProfile } = snapshot.val() as UserProfile;
+        const geminiApiKey = initialGeminiApiKey ?? secrets.geminiApiKey ?? legacyGeminiApiKey ?? '';
         profileData = {
           ...existingProfile,
           id: firebaseUser.uid, 
@@ -76,17 +96,18 @@ export function AuthProvider({ children }: PropsWithChildren) {
           avatarUrl: existingProfile.avatarUrl || firebaseUser.photoURL || `https://picsum.photos/seed/${firebaseUser.uid}/100/100`,
           lastLogin: now,
           // geminiApiKey is updated if provided (e.g., during signup), otherwise preserve existing or set to empty
-          geminiApiKey: initialGeminiApiKey !== undefined ? initialGeminiApiKey : (existingProfile.geminiApiKey !== undefined ? existingProfile.geminiApiKey : ''),
-          personaQuota: existingProfile.personaQuota === undefined ? FREE_PERSONA_LIMIT : existingProfile.personaQuota,
+          geminiApiKey,
+          personaQuota,
         };
         await update(userNodeRef, { 
           lastLogin: now, 
           email: profileData.email, 
           name: profileData.name,
           avatarUrl: profileData.avatarUrl,
-          geminiApiKey: profileData.geminiApiKey, // ensure it's written
-          personaQuota: profileData.personaQuota,
         });
+        if (initialGeminiApiKey !== undefined || legacyGeminiApiKey !== undefined) {
+          await saveUserGeminiApiKey(firebaseUser.uid, geminiApiKey);
+        }
       } else {
         // New user profile
         profileData = {
@@ -96,11 +117,14 @@ export function AuthProvider({ children }: PropsWithChildren) {
           avatarUrl: firebaseUser.photoURL || `https://picsum.photos/seed/${firebaseUser.uid}/100/100`,
           createdAt: now,
           lastLogin: now,
-          geminiApiKey: initialGeminiApiKey || '', // Use provided key or empty string
-          personaQuota: FREE_PERSONA_LIMIT,
         };
         await set(userNodeRef, profileData);
+        if (initialGeminiApiKey) {
+          await saveUserGeminiApiKey(firebaseUser.uid, initialGeminiApiKey);
+        }
+        profileData = { ...profileData, geminiApiKey: initialGeminiApiKey || '', personaQuota };
       }
+      setEntitlements(userEntitlements);
       setUserProfile(profileData);
       setUserId(firebaseUser.uid);
     } catch (error: any) {
@@ -143,6 +167,18 @@ export function AuthProvider({ children }: PropsWithChildren) {
     return () => unsubscribe();
   }, [fetchOrCreateUserProfile]);
 
+  // Keep the quota and plan live, e.g. when the Stripe webhook fulfils a purchase or a subscription changes while the app is open.
+  useEffect(() => {
+    if (!userId) {
+      setEntitlements(null);
+      return;
+    }
+    return subscribeToUserEntitlements(userId, (latestEntitlements) => {
+      setEntitlements(latestEntitlements);
+      setUserProfile(prev => prev ? { ...prev, personaQuota: getEffectivePersonaQuota(latestEntitlements) } : prev);
+    });
+  }, [userId]);
+
 
   const signupWithEmail = async (values: SignupAuthFormValues) => {
     setLoadingAuth(true);
@@ -281,18 +317,20 @@ export function AuthProvider({ children }: PropsWithChildren) {
       return;
     }
     try {
-      const profileUpdates: Partial<UserProfile> = {};
+      const profileUpdates: UserProfileUpdates = {};
       if (updates.name !== undefined) profileUpdates.name = updates.name;
       if (updates.avatarUrl !== undefined) { 
         profileUpdates.avatarUrl = updates.avatarUrl === '' ? `https://picsum.photos/seed/${userId}/100/100` : updates.avatarUrl;
       }
-      if (updates.geminiApiKey !== undefined) profileUpdates.geminiApiKey = updates.geminiApiKey;
       
       await updateUserProfileInDBStore(userId, profileUpdates);
+      if (updates.geminiApiKey !== undefined) {
+        await saveUserGeminiApiKey(userId, updates.geminiApiKey);
+      }
       
       setUserProfile(prev => {
         if (!prev) return null;
-        return { ...prev, ...profileUpdates };
+        return { ...prev, ...profileUpdates, ...(updates.geminiApiKey !== undefined ? { geminiApiKey: updates.geminiApiKey.trim() } : {}) };
       });
       
       toast({ title: 'Profile Updated', description: 'Your profile has been successfully updated.' });
@@ -302,12 +340,31 @@ export function AuthProvider({ children }: PropsWithChildren) {
     }
   };
 
+  // Server-side AI flows verify this token and reject callers whose email is not verified.
+  const getIdToken = useCallback(async (): Promise<string | null> => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) return null;
+    try {
+      if (!currentUser.emailVerified) {
+        // The user may have verified in another tab; reload and force a fresh token so the email_verified claim is current.
+        await currentUser.reload();
+        setIsEmailVerified(currentUser.emailVerified);
+        return await currentUser.getIdToken(currentUser.emailVerified);
+      }
+      return await currentUser.getIdToken();
+    } catch (error) {
+      console.error("Error getting ID token:", error);
+      return null;
+    }
+  }, []);
+
   return (
     <AuthContext.Provider
       value={{
         user,
         userId,
         userProfile,
+        entitlements,
         isEmailVerified,
         loadingAuth,
         loginWithEmail,
@@ -316,6 +373,7 @@ export function AuthProvider({ children }: PropsWithChildren) {
         logout,
         resendVerificationEmail,
         updateCurrentProfile,
+        getIdToken,
       }}
     >
       {children}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { MessageCursor } from '@/lib/store';
+import { CHAT_MESSAGES_PAGE_SIZE } from '@/lib/constants';
+
+type PaginatedMessage = { id: string; timestamp: string | number };
+
+export interface PaginatedMessageSource<T extends PaginatedMessage> {
+  // Identifies the conversation; changing it drops the loaded pages and subscribes again.
+  key: string;
+  // Listens to the newest page and everything after it, e.g. getChatMessages.
+  subscribe: (callback: (messages: T[]) => void, pageSize: number) => () => void;
+  // Fetches the page just before the cursor, e.g. getOlderChatMessages.
+  fetchOlder: (before: MessageCursor, pageSize: number) => Promise<T[]>;
+}
+
+// The element that actually scrolls inside a ScrollArea.
+const findViewport = (node: Element | null) => node?.closest<HTMLElement>('[data-radix-scroll-area-viewport]') ?? null;
+
+/**
+ * Chat messages loaded a page at a time for a ScrollArea. Only the newest page is live; older pages are fetched
+ * once when `topSentinelRef` (rendered above the first message) scrolls into view, keeping the reader's scroll
+ * position. The view follows new messages at the bottom. Pass null while the conversation is not known yet.
+ */
+export function usePaginatedMessages<T extends PaginatedMessage>(
+  source: PaginatedMessageSource<T> | null,
+  pageSize: number = CHAT_MESSAGES_PAGE_SIZE
+) {
+  const [olderMessages, setOlderMessages] = useState<T[]>([]);
+  const [windowMessages, setWindowMessages] = useState<T[]>([]);
+  const [isWindowLoaded, setIsWindowLoaded] = useState(false);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [topSentinel, setTopSentinel] = useState<HTMLDivElement | null>(null);
+
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  // Scroll height and offset before older messages were prepended, so the same messages stay in view.
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const lastNewestIdRef = useRef<string | null>(null);
+
+  const key = source?.key ?? null;
+
+  const scrollToBottom = useCallback((behavior: ScrollBehavior = 'smooth') => {
+    const viewport = findViewport(sentinelRef.current);
+    viewport?.scrollTo({ top: viewport.scrollHeight, behavior });
+  }, []);
+
+  useEffect(() => {
+    setOlderMessages([]);
+    setWindowMessages([]);
+    setIsWindowLoaded(false);
+    setHasOlder(false);
+    setIsLoadingOlder(false);
+    lastNewestIdRef.current = null;
+    if (!key || !sourceRef.current) return;
+
+    let isFirstSnapshot = true;
+    return sourceRef.current.subscribe((messages) => {
+      if (isFirstSnapshot) {
+        isFirstSnapshot = false;
+        setHasOlder(messages.length >= pageSize);
+        setIsWindowLoaded(true);
+      }
+      setWindowMessages(messages);
+    }, pageSize);
+  }, [key, pageSize]);
+
+  const cursor = olderMessages[0] ?? windowMessages[0];
+
+  const loadOlder = useCallback(async () => {
+    const currentSource = sourceRef.current;
+    if (!currentSource || !cursor || isLoadingOlder || !hasOlder) return;
+    setIsLoadingOlder(true);
+    try {
+      const page = await currentSource.fetchOlder({ id: cursor.id, timestamp: cursor.timestamp }, pageSize);
+      if (sourceRef.current?.key !== currentSource.key) return;
+      const viewport = findViewport(sentinelRef.current);
+      scrollAnchorRef.current = viewport ? { scrollHeight: viewport.scrollHeight, scrollTop: viewport.scrollTop } : null;
+      setOlderMessages((previous) => [...page, ...previous]);
+      setHasOlder(page.length >= pageSize);
+    } catch {
+      // Logged by the store; stop paging rather than retrying in a loop while the sentinel stays visible.
+      setHasOlder(false);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [cursor, hasOlder, isLoadingOlder, pageSize]);
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const viewport = findViewport(sentinelRef.current);
+    if (!anchor || !viewport) return;
+    scrollAnchorRef.current = null;
+    viewport.scrollTop = viewport.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+  }, [olderMessages]);
+
+  // Follow the conversation when a message arrives at the bottom, but not when older pages are prepended.
+  const newestId = windowMessages[windowMessages.length - 1]?.id ?? null;
+  useEffect(() => {
+    if (!newestId || newestId === lastNewestIdRef.current) return;
+    const isInitialLoad = lastNewestIdRef.current === null;
+    lastNewestIdRef.current = newestId;
+    scrollToBottom(isInitialLoad ? 'auto' : 'smooth');
+  }, [newestId, scrollToBottom]);
+
+  // Re-created after each page, so pages keep loading while the top of the list is still in view.
+  useEffect(() => {
+    if (!topSentinel || !isWindowLoaded || !hasOlder || isLoadingOlder) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadOlder();
+    }, { root: findViewport(topSentinel), rootMargin: '200px 0px 0px 0px' });
+    observer.observe(topSentinel);
+    return () => observer.disconnect();
+  }, [topSentinel, isWindowLoaded, hasOlder, isLoadingOlder, loadOlder]);
+
+  const topSentinelRef = useCallback((node: HTMLDivElement | null) => {
+    sentinelRef.current = node;
+    setTopSentinel(node);
+  }, []);
+
+  // The older pages have no listener, so a cleared chat must drop them here.
+  const clearOlderMessages = useCallback(() => {
+    setOlderMessages([]);
+    setHasOlder(false);
+  }, []);
+
+  // Mirrors an edit (or a deletion, with null) of a single message into the older pages. Messages in the newest
+  // window are updated by its listener, so this is a no-op for them.
+  const updateOlderMessage = useCallback((messageId: string, changes: Partial<T> | null) => {
+    setOlderMessages((previous) => {
+      if (!previous.some((message) => message.id === messageId)) return previous;
+      return changes === null
+        ? previous.filter((message) => message.id !== messageId)
+        : previous.map((message) => (message.id === messageId ? { ...message, ...changes } : message));
+    });
+  }, []);
+
+  return {
+    messages: olderMessages.length > 0 ? [...olderMessages, ...windowMessages] : windowMessages,
+    isWindowLoaded,
+    hasOlder,
+    isLoadingOlder,
+    topSentinelRef,
+    scrollToBottom,
+    clearOlderMessages,
+    updateOlderMessage,
+  };
+}
@@ -0,0 +1,151 @@
+// src/lib/account-data.ts
+// Server-only: gathers and deletes everything stored for one account, for the account export and account deletion.
+import type {
+  AccountExportArchive,
+  AccountExportUserChat,
+  ChatMessage,
+  Persona,
+  PurchaseRecord,
+  UserChatMessage,
+  UserContact,
+  UserProfile,
+} from './types';
+import { getAdminDb } from './firebase-admin';
+import {
+  AI_CHAT_MESSAGES_PATH_BASE,
+  AI_CHAT_SUMMARIES_PATH_BASE,
+  AI_USAGE_PATH_BASE,
+  generateUserChatId,
+  PERSONA_DESCRIPTION_VERSIONS_PATH_BASE,
+  PERSONA_INSIGHT_SNAPSHOTS_PATH_BASE,
+  PERSONA_TRASH_PATH_BASE,
+  PERSONAS_PATH_BASE,
+  PURCHASES_PATH_BASE,
+  USER_CHAT_MESSAGES_PATH_BASE,
+  USER_CONTACTS_PATH_BASE,
+  USERS_PATH,
+  USER_SECRETS_PATH,
+} from './store';
+import { buildPersonaExport } from './persona-export';
+
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+// Children of a node as a list with their keys as ids, in key order (push ids sort by creation time).
+const childrenOf = <T extends { id: string }>(value: Record<string, Omit<T, 'id'>> | null): T[] =>
+  Object.entries(value ?? {})
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([id, data]) => ({ ...data, id }) as T);
+
+const readValue = async <T>(path: string): Promise<T | null> => (await getAdminDb().ref(path).get()).val() as T | null;
+
+/**
+ * Users who have this user in their contacts. Contacts are one-sided and keyed by their owner, so this reads every
+ * contact list; it only runs for account exports and deletions.
+ */
+const findUsersWithContact = async (userId: string): Promise<string[]> => {
+  const contactLists = (await readValue<Record<string, Record<string, UserContact>>>(USER_CONTACTS_PATH_BASE)) ?? {};
+  return Object.keys(contactLists).filter((ownerId) => ownerId !== userId && !!contactLists[ownerId]?.[userId]);
+};
+
+/**
+ * Ids of the user-to-user threads the user takes part in. A chat id is the two participants' uids sorted and joined
+ * with "_", so threads where this user's uid sorts first are found by key prefix; the others are found through the
+ * user's contacts, the users who have them as a contact and the contacts their chat-derived personas represent.
+ */
+const findUserChatIds = async (
+  userId: string,
+  contacts: UserContact[],
+  personas: Persona[],
+  contactOfIds: string[]
+): Promise<string[]> => {
+  const prefixed = await getAdminDb()
+    .ref(USER_CHAT_MESSAGES_PATH_BASE)
+    .orderByKey()
+    .startAt(`${userId}_`)
+    .endAt(`${userId}_\uf8ff`)
+    .get();
+  const chatIds = new Set<string>(Object.keys(prefixed.val() ?? {}));
+  contacts.forEach((contact) => chatIds.add(generateUserChatId(userId, contact.id)));
+  contactOfIds.forEach((otherUserId) => chatIds.add(generateUserChatId(userId, otherUserId)));
+  personas.forEach((persona) => {
+    if (persona.derivedFromChatId) chatIds.add(persona.derivedFromChatId);
+  });
+  return [...chatIds];
+};
+
+const getContactsAndPersonas = async (
+  userId: string
+): Promise<{ contacts: UserContact[]; personas: Persona[]; contactOfIds: string[] }> => {
+  const [contacts, personas, contactOfIds] = await Promise.all([
+    readValue<Record<string, UserContact>>(`${USER_CONTACTS_PATH_BASE}/${userId}`),
+    readValue<Record<string, Persona>>(`${PERSONAS_PATH_BASE}/${userId}`),
+    findUsersWithContact(userId),
+  ]);
+  return { contacts: Object.values(contacts ?? {}), personas: Object.values(personas ?? {}), contactOfIds };
+};
+
+/** Collects the user's profile, contacts, personas with their AI chats, user-to-user threads and purchases. */
+export const buildAccountExport = async (userId: string): Promise<AccountExportArchive> => {
+  const { contacts, personas, contactOfIds } = await getContactsAndPersonas(userId);
+  const [profile, aiChats, purchases, chatIds] = await Promise.all([
+    readValue<UserProfile>(`${USERS_PATH}/${userId}`),
+    readValue<Record<string, Record<string, Omit<ChatMessage, 'id'>>>>(`${AI_CHAT_MESSAGES_PATH_BASE}/${userId}`),
+    readValue<Record<string, PurchaseRecord>>(`${PURCHASES_PATH_BASE}/${userId}`),
+    findUserChatIds(userId, contacts, personas, contactOfIds),
+  ]);
+
+  const userChats: AccountExportUserChat[] = [];
+  for (const chatId of chatIds) {
+    const messages = childrenOf<UserChatMessage>(await readValue(`${USER_CHAT_MESSAGES_PATH_BASE}/${chatId}`));
+    if (messages.length > 0) {
+      userChats.push({ chatId, participantIds: chatId.split('_'), messages });
+    }
+  }
+
+  return {
+    exportVersion: ACCOUNT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: profile ? JSON.parse(JSON.stringify({
+      id: profile.id,
+      email: profile.email,
+      name: profile.name,
+      avatarUrl: profile.avatarUrl,
+      lastLogin: profile.lastLogin,
+      createdAt: profile.createdAt,
+    })) : null,
+    contacts,
+    personas: personas.map((persona) => buildPersonaExport(persona, childrenOf<ChatMessage>(aiChats?.[persona.id] ?? null))),
+    userChats,
+    purchases: Object.values(purchases ?? {}),
+  };
+};
+
+/**
+ * Deletes the user's profile, contacts, personas (including trashed ones) and everything stored per persona, AI usage and every user-to-user
+ * thread they take part in (for both participants), in one multi-path update. The user is also removed from other
+ * users' contacts. Purchases, entitlements and the Stripe customer index are billing records and are kept.
+ */
+export const deleteAccountData = async (userId: string): Promise<void> => {
+  const { contacts, personas, contactOfIds } = await getContactsAndPersonas(userId);
+  const chatIds = await findUserChatIds(userId, contacts, personas, contactOfIds);
+
+  const updates: Record<string, null> = {
+    [`${USERS_PATH}/${userId}`]: null,
+    [`${USER_SECRETS_PATH}/${userId}`]: null,
+    [`${USER_CONTACTS_PATH_BASE}/${userId}`]: null,
+    [`${PERSONAS_PATH_BASE}/${userId}`]: null,
+    [`${PERSONA_TRASH_PATH_BASE}/${userId}`]: null,
+    [`${AI_CHAT_MESSAGES_PATH_BASE}/${userId}`]: null,
+    [`${AI_CHAT_SUMMARIES_PATH_BASE}/${userId}`]: null,
+    [`${PERSONA_DESCRIPTION_VERSIONS_PATH_BASE}/${userId}`]: null,
+    [`${PERSONA_INSIGHT_SNAPSHOTS_PATH_BASE}/${userId}`]: null,
+    [`${AI_USAGE_PATH_BASE}/${userId}`]: null,
+  };
+  chatIds.forEach((chatId) => {
+    updates[`${USER_CHAT_MESSAGES_PATH_BASE}/${chatId}`] = null;
+  });
+  contactOfIds.forEach((otherUserId) => {
+    updates[`${USER_CONTACTS_PATH_BASE}/${otherUserId}/${userId}`] = null;
+  });
+  await getAdminDb().ref().update(updates);
+};
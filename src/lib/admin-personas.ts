@@ -0,0 +1,173 @@
+// src/lib/admin-personas.ts
+// Server-only persona writes that must respect the persona quota, the quota-based lock check for AI requests and the
+// scheduled trash purge. Security rules stop clients from creating personas directly, so every new persona goes
+// through createPersonaWithinQuota.
+import { randomUUID } from 'crypto';
+import type { NewPersonaData, Persona, TrashedPersona } from './types';
+import { getAdminDb } from './firebase-admin';
+import {
+  AI_CHAT_MESSAGES_PATH_BASE,
+  AI_CHAT_SUMMARIES_PATH_BASE,
+  PERSONA_DESCRIPTION_VERSIONS_PATH_BASE,
+  PERSONA_INSIGHT_SNAPSHOTS_PATH_BASE,
+  PERSONA_TRASH_PATH_BASE,
+  PERSONAS_PATH_BASE,
+} from './store';
+import { parseTrashedPersona, type ImportedChatMessage } from './persona-export';
+import { getPersonaQuotaForUser } from './entitlements';
+import { getLockedPersonaIds } from './persona-locks';
+
+export type CreatePersonaWithinQuotaResult =
+  | { created: true; persona: Persona }
+  | { created: false; personaCount: number; personaQuota: number };
+
+/**
+ * Adds a persona under personas/{userId} in a single transaction that first counts the user's existing personas,
+ * so concurrent creations cannot exceed the quota. The server assigns the persona's id and createdAt.
+ */
+export const createPersonaWithinQuota = async (
+  userId: string,
+  personaData: NewPersonaData
+): Promise<CreatePersonaWithinQuotaResult> => {
+  const personaQuota = await getPersonaQuotaForUser(userId);
+  const personaId = randomUUID();
+  const newPersona: Persona = JSON.parse(JSON.stringify({
+    ...personaData,
+    id: personaId,
+    createdAt: new Date().toISOString(),
+  }));
+
+  let personaCount = 0;
+  const { committed } = await getAdminDb()
+    .ref(`${PERSONAS_PATH_BASE}/${userId}`)
+    .transaction((currentPersonas: Record<string, Persona> | null) => {
+      personaCount = currentPersonas ? Object.keys(currentPersonas).length : 0;
+      if (personaCount >= personaQuota) return; // Abort: over quota
+      return { ...(currentPersonas ?? {}), [personaId]: newPersona };
+    });
+
+  return committed
+    ? { created: true, persona: newPersona }
+    : { created: false, personaCount, personaQuota };
+};
+
+/**
+ * Recreates an imported persona within the quota, then writes its AI chat messages under new ids in their original
+ * order. If the messages cannot be written the new persona is removed again, so a failed import leaves nothing behind.
+ */
+export const importPersonaWithinQuota = async (
+  userId: string,
+  personaData: NewPersonaData,
+  chatMessages: ImportedChatMessage[]
+): Promise<CreatePersonaWithinQuotaResult> => {
+  const result = await createPersonaWithinQuota(userId, personaData);
+  if (!result.created || chatMessages.length === 0) return result;
+
+  const messagesRef = getAdminDb().ref(`${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${result.persona.id}`);
+  const messages: Record<string, ImportedChatMessage> = {};
+  chatMessages.forEach((message) => {
+    messages[messagesRef.push().key!] = JSON.parse(JSON.stringify(message));
+  });
+  try {
+    await messagesRef.set(messages);
+  } catch (error) {
+    await getAdminDb().ref(`${PERSONAS_PATH_BASE}/${userId}/${result.persona.id}`).remove();
+    throw error;
+  }
+  return result;
+};
+
+export type RestorePersonaWithinQuotaResult =
+  | { restored: true; persona: Persona }
+  | { restored: false; reason: 'not-found' | 'duplicate' }
+  | { restored: false; reason: 'quota'; personaCount: number; personaQuota: number };
+
+/**
+ * Moves a persona from the trash back to personas/{userId} under its original id, in the same kind of quota
+ * transaction as createPersonaWithinQuota. A chat-derived persona is not restored while another persona already
+ * represents the same contact in the same chat. Its chats and history were never moved, so they come back with it.
+ */
+export const restorePersonaWithinQuota = async (
+  userId: string,
+  personaId: string
+): Promise<RestorePersonaWithinQuotaResult> => {
+  const trashEntryRef = getAdminDb().ref(`${PERSONA_TRASH_PATH_BASE}/${userId}/${personaId}`);
+  const trashEntry = (await trashEntryRef.get()).val() as TrashedPersona | null;
+  const persona = trashEntry ? parseTrashedPersona(trashEntry.persona, personaId) : null;
+  if (!persona) return { restored: false, reason: 'not-found' };
+
+  const personaQuota = await getPersonaQuotaForUser(userId);
+  let personaCount = 0;
+  let isDuplicate = false;
+  const { committed } = await getAdminDb()
+    .ref(`${PERSONAS_PATH_BASE}/${userId}`)
+    .transaction((currentPersonas: Record<string, Persona> | null) => {
+      const existing = Object.values(currentPersonas ?? {});
+      personaCount = existing.length;
+      isDuplicate = persona.originType === 'chat-derived' && existing.some((other) =>
+        other.derivedFromChatId === persona.derivedFromChatId &&
+        other.derivedRepresentingUserId === persona.derivedRepresentingUserId
+      );
+      if (isDuplicate || personaCount >= personaQuota) return; // Abort
+      return { ...(currentPersonas ?? {}), [personaId]: persona };
+    });
+
+  if (!committed) {
+    return isDuplicate ? { restored: false, reason: 'duplicate' } : { restored: false, reason: 'quota', personaCount, personaQuota };
+  }
+  await trashEntryRef.remove();
+  return { restored: true, persona };
+};
+
+export type PersonaAccess = 'available' | 'locked' | 'not-found';
+
+/**
+ * Whether the user may use one of their personas with the AI. The soft-lock (see persona-locks.ts) is derived from
+ * the stored personas and quota here, so requests that bypass the UI cannot chat with a locked persona.
+ */
+export const getPersonaAccess = async (userId: string, personaId: string): Promise<PersonaAccess> => {
+  const [personasSnapshot, personaQuota] = await Promise.all([
+    getAdminDb().ref(`${PERSONAS_PATH_BASE}/${userId}`).get(),
+    getPersonaQuotaForUser(userId),
+  ]);
+  const personas = Object.values((personasSnapshot.val() ?? {}) as Record<string, Persona>);
+  if (!personas.some((persona) => persona.id === personaId)) return 'not-found';
+  return getLockedPersonaIds(personas, personaQuota).has(personaId) ? 'locked' : 'available';
+};
+
+/**
+ * Permanently deletes every user's trashed personas whose restore window has passed, with everything stored for them
+ * (the same data as purgePersona in store.ts). Run daily by the /api/cron/purge-trash route, so the trash is emptied
+ * even for users who never open the dashboard again. A user whose purge fails is logged and retried on the next run.
+ */
+export const purgeExpiredTrashedPersonasForAllUsers = async (now: Date = new Date()): Promise<{ purged: number; failedUsers: number }> => {
+  const trash = (await getAdminDb().ref(PERSONA_TRASH_PATH_BASE).get()).val() as Record<string, Record<string, TrashedPersona>> | null;
+  const nowIso = now.toISOString();
+  let purged = 0;
+  let failedUsers = 0;
+
+  for (const [userId, entries] of Object.entries(trash ?? {})) {
+    const expiredIds = Object.keys(entries ?? {}).filter((personaId) => entries[personaId]?.purgeAfter <= nowIso);
+    if (expiredIds.length === 0) continue;
+    try {
+      const updates: Record<string, null> = {};
+      let purgedForUser = 0;
+      for (const personaId of expiredIds) {
+        updates[`${PERSONA_TRASH_PATH_BASE}/${userId}/${personaId}`] = null;
+        // Restored in the meantime: only the stale trash entry goes.
+        if ((await getAdminDb().ref(`${PERSONAS_PATH_BASE}/${userId}/${personaId}`).get()).exists()) continue;
+        updates[`${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}`] = null;
+        updates[`${AI_CHAT_SUMMARIES_PATH_BASE}/${userId}/${personaId}`] = null;
+        updates[`${PERSONA_INSIGHT_SNAPSHOTS_PATH_BASE}/${userId}/${personaId}`] = null;
+        updates[`${PERSONA_DESCRIPTION_VERSIONS_PATH_BASE}/${userId}/${personaId}`] = null;
+        purgedForUser++;
+      }
+      await getAdminDb().ref().update(updates);
+      purged += purgedForUser;
+    } catch (error) {
+      console.error(`Error purging expired trashed personas for user ${userId}:`, error);
+      failedUsers++;
+    }
+  }
+  return { purged, failedUsers };
+};
@@ -0,0 +1,40 @@
+// src/lib/ai-usage.ts
+// Helpers shared by the server-side usage ledger (src/ai/usage.ts) and the profile page.
+import type { AiUsagePeriod, AiUsageTotals } from './types';
+import { AI_USAGE_LIMITS, type AiUsageLimits, type AiUsagePlan } from './constants';
+
+export const EMPTY_AI_USAGE_TOTALS: AiUsageTotals = {
+  calls: 0,
+  failedCalls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  totalLatencyMs: 0,
+};
+
+// Usage periods are keyed in UTC so the day rolls over at the same moment for every server instance.
+export const getAiUsagePeriodKeys = (date: Date = new Date()): { day: string; month: string } => {
+  const day = date.toISOString().slice(0, 10); // YYYY-MM-DD
+  return { day, month: day.slice(0, 7) };
+};
+
+export const getAiUsageLimits = (plan: AiUsagePlan): AiUsageLimits => AI_USAGE_LIMITS[plan];
+
+export const getPeriodTotals = (period: AiUsagePeriod | null | undefined): AiUsageTotals => ({
+  ...EMPTY_AI_USAGE_TOTALS,
+  ...(period?.totals ?? {}),
+});
+
+export const getTotalTokens = (totals: AiUsageTotals): number => totals.inputTokens + totals.outputTokens;
+
+export type AiUsageCapExceeded = 'daily' | 'monthly' | null;
+
+/** Which cap (if any) the given totals have already reached. The daily cap is reported first. */
+export const findExceededAiUsageCap = (
+  daily: AiUsageTotals,
+  monthly: AiUsageTotals,
+  limits: AiUsageLimits
+): AiUsageCapExceeded => {
+  if (daily.calls >= limits.dailyCalls || getTotalTokens(daily) >= limits.dailyTokens) return 'daily';
+  if (monthly.calls >= limits.monthlyCalls || getTotalTokens(monthly) >= limits.monthlyTokens) return 'monthly';
+  return null;
+};
@@ -0,0 +1,332 @@
+// src/lib/chat-import.ts
+// Parses chat exports (WhatsApp .txt, Telegram JSON, Discord JSON, CSV such as iMessage exports) into a flat list of
+// messages, and builds persona seed text from one participant's messages. Runs in the browser; nothing is uploaded.
+import { z } from 'zod';
+import { CHAT_IMPORT_CONTEXT_MESSAGES, CHAT_IMPORT_MAX_SEED_CHARS } from './constants';
+
+export type ChatExportFormat = 'whatsapp' | 'telegram' | 'discord' | 'csv';
+
+export interface ImportedChatMessage {
+  speaker: string;
+  text: string;
+  timestamp?: string; // As written in the export; formats vary by app and locale
+}
+
+export interface ChatSpeaker {
+  name: string;
+  messageCount: number;
+}
+
+export interface ParsedChatExport {
+  format: ChatExportFormat;
+  messages: ImportedChatMessage[];
+  speakers: ChatSpeaker[]; // Most active first
+}
+
+export interface ChatSeed {
+  chatHistory: string;
+  speakerMessageCount: number; // The chosen speaker's messages included in chatHistory
+  truncated: boolean; // True when older messages were dropped to stay within CHAT_IMPORT_MAX_SEED_CHARS
+  dateRange?: { first: string; last: string }; // ISO dates of the first and last included speaker messages, if readable
+}
+
+export const CHAT_EXPORT_FORMAT_LABELS: Record<ChatExportFormat, string> = {
+  whatsapp: 'WhatsApp',
+  telegram: 'Telegram',
+  discord: 'Discord',
+  csv: 'CSV',
+};
+
+export class ChatImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatImportError';
+  }
+}
+
+// --- WhatsApp (.txt) ---
+// Android: "31/12/2020, 21:41 - Alice: Hi"   iOS: "[31/12/2020, 21:41:05] Alice: Hi"   (12/24-hour, any date order)
+const WHATSAPP_LINE = /^\u200e?\[?(\d{1,4}[./-]\d{1,2}[./-]\d{1,4}),?\s+(\d{1,2}[:.]\d{2}(?:[:.]\d{2})?(?:\s?[ap]\.?\s?m\.?)?)\]?\s*(?:[-–]\s*)?(.*)$/i;
+const WHATSAPP_AUTHOR = /^([^:]{1,80}?):\s(.*)$/;
+const WHATSAPP_OMITTED = /^\u200e?<(?:media omitted|[^>]* omitted)>$|^\u200e?(?:image|video|audio|sticker|GIF|document) omitted$/i;
+
+const parseWhatsApp = (content: string): ImportedChatMessage[] => {
+  const messages: ImportedChatMessage[] = [];
+  let current: ImportedChatMessage | null = null;
+
+  for (const line of content.split(/\r?\n/)) {
+    const header = WHATSAPP_LINE.exec(line);
+    if (!header) {
+      // Continuation of a multi-line message
+      if (current && line.trim()) current.text += `\n${line}`;
+      continue;
+    }
+    const author = WHATSAPP_AUTHOR.exec(header[3]);
+    // Lines without an author are system notices ("Messages are end-to-end encrypted", "Alice joined", ...)
+    current = author ? { speaker: author[1].trim(), text: author[2], timestamp: `${header[1]} ${header[2]}` } : null;
+    if (current) messages.push(current);
+  }
+  return messages.filter((message) => !WHATSAPP_OMITTED.test(message.text.trim()));
+};
+
+// --- JSON exports (untrusted: only the fields read below are validated, and entries of other shapes are skipped) ---
+
+const jsonExportSchema = z.object({
+  messages: z.array(z.unknown()).optional(),
+  chats: z.object({ list: z.array(z.unknown()) }).optional(),
+});
+type JsonExport = z.infer<typeof jsonExportSchema>;
+
+// The items of an array that match the schema, e.g. chat messages without service notices.
+const parseEach = <T>(items: unknown[] | undefined, schema: z.ZodType<T>): T[] =>
+  (items ?? []).flatMap((item) => {
+    const parsed = schema.safeParse(item);
+    return parsed.success ? [parsed.data] : [];
+  });
+
+// --- Telegram (Telegram Desktop "Export chat history" as JSON) ---
+
+const telegramMessageSchema = z.object({
+  type: z.literal('message'),
+  from: z.union([z.string().min(1), z.number()]), // null for deleted accounts
+  text: z.union([z.string(), z.array(z.union([z.string(), z.object({ text: z.string().optional() })]))]).optional(),
+  date: z.string().optional(),
+});
+const telegramChatSchema = z.object({ messages: z.array(z.unknown()).optional() });
+
+const telegramText = (text: z.infer<typeof telegramMessageSchema>['text']): string =>
+  Array.isArray(text) ? text.map((part) => (typeof part === 'string' ? part : part.text ?? '')).join('') : text ?? '';
+
+const parseTelegram = (data: JsonExport): ImportedChatMessage[] => {
+  // A single chat export has `messages`; a full account export nests chats under `chats.list`.
+  const chats = data.messages ? [data] : parseEach(data.chats?.list, telegramChatSchema);
+  return chats.flatMap((chat) =>
+    parseEach(chat.messages, telegramMessageSchema)
+      .map((message) => ({ speaker: String(message.from), text: telegramText(message.text), timestamp: message.date }))
+  );
+};
+
+// --- Discord (DiscordChatExporter JSON) ---
+
+const discordMessageSchema = z.object({
+  author: z.object({ name: z.string(), nickname: z.string().nullish() }),
+  content: z.string().nullish(),
+  timestamp: z.string().optional(),
+});
+
+const parseDiscord = (data: JsonExport): ImportedChatMessage[] =>
+  parseEach(data.messages, discordMessageSchema).map((message) => ({
+    speaker: message.author.nickname || message.author.name,
+    text: message.content ?? '',
+    timestamp: message.timestamp,
+  }));
+
+// --- CSV (iMessage exporters and other generic exports with a header row) ---
+
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const CSV_SPEAKER_COLUMNS = ['sender name', 'sender', 'author', 'from', 'speaker', 'name', 'username', 'user', 'contact'];
+const CSV_TEXT_COLUMNS = ['text', 'message', 'content', 'body', 'message text'];
+const CSV_TIMESTAMP_COLUMNS = ['message date', 'date', 'timestamp', 'time', 'sent', 'datetime', 'date sent'];
+const CSV_DIRECTION_COLUMNS = ['type', 'direction', 'is from me'];
+// iMessage exports leave the sender blank on outgoing messages and mark them in a type/direction column.
+const OUTGOING_SPEAKER = 'Me';
+
+const findColumn = (headers: string[], candidates: string[]): number => {
+  for (const candidate of candidates) {
+    const index = headers.indexOf(candidate);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+const parseCsv = (content: string): ImportedChatMessage[] => {
+  const [headerRow, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!headerRow) return [];
+  const headers = headerRow.map((header) => header.trim().toLowerCase());
+  const speakerColumn = findColumn(headers, CSV_SPEAKER_COLUMNS);
+  const textColumn = findColumn(headers, CSV_TEXT_COLUMNS);
+  const timestampColumn = findColumn(headers, CSV_TIMESTAMP_COLUMNS);
+  const directionColumn = findColumn(headers, CSV_DIRECTION_COLUMNS);
+  if (textColumn === -1 || (speakerColumn === -1 && directionColumn === -1)) {
+    throw new ChatImportError('The CSV needs a header row with a message column (e.g. "text") and a sender column (e.g. "sender").');
+  }
+
+  return rows.flatMap((cells) => {
+    const direction = directionColumn === -1 ? '' : cells[directionColumn]?.trim().toLowerCase();
+    const isOutgoing = direction === 'outgoing' || direction === 'sent' || direction === '1' || direction === 'true';
+    const speaker = (speakerColumn === -1 ? '' : cells[speakerColumn]?.trim()) || (isOutgoing ? OUTGOING_SPEAKER : '');
+    const text = cells[textColumn] ?? '';
+    if (!speaker) return [];
+    return [{ speaker, text, timestamp: timestampColumn === -1 ? undefined : cells[timestampColumn]?.trim() || undefined }];
+  });
+};
+
+// --- Detection ---
+
+const parseJsonExport = (content: string): { format: ChatExportFormat; messages: ImportedChatMessage[] } => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new ChatImportError('The file is not valid JSON.');
+  }
+  const parsed = jsonExportSchema.safeParse(json);
+  const data = parsed.success ? parsed.data : {};
+  if (discordMessageSchema.safeParse(data.messages?.[0]).success) return { format: 'discord', messages: parseDiscord(data) };
+  if (data.messages || data.chats) return { format: 'telegram', messages: parseTelegram(data) };
+  throw new ChatImportError('Unrecognised JSON export. Use a Telegram Desktop or DiscordChatExporter JSON export.');
+};
+
+const summarizeSpeakers = (messages: ImportedChatMessage[]): ChatSpeaker[] => {
+  const counts = new Map<string, number>();
+  messages.forEach((message) => counts.set(message.speaker, (counts.get(message.speaker) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([name, messageCount]) => ({ name, messageCount }))
+    .sort((a, b) => b.messageCount - a.messageCount);
+};
+
+/** Parses a chat export, picking the format from the file extension (and, for JSON, the file's structure). */
+export const parseChatExport = (fileName: string, content: string): ParsedChatExport => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  let parsed: { format: ChatExportFormat; messages: ImportedChatMessage[] };
+  if (extension === 'json') {
+    parsed = parseJsonExport(content);
+  } else if (extension === 'csv') {
+    parsed = { format: 'csv', messages: parseCsv(content) };
+  } else if (extension === 'txt') {
+    parsed = { format: 'whatsapp', messages: parseWhatsApp(content) };
+  } else {
+    throw new ChatImportError('Unsupported file type. Upload a WhatsApp .txt, Telegram or Discord .json, or a .csv export.');
+  }
+
+  const messages = parsed.messages
+    .map((message) => ({ ...message, text: message.text.trim() }))
+    .filter((message) => message.text);
+  if (messages.length === 0) {
+    throw new ChatImportError(`No messages were found in this ${CHAT_EXPORT_FORMAT_LABELS[parsed.format]} export.`);
+  }
+  return { format: parsed.format, messages, speakers: summarizeSpeakers(messages) };
+};
+
+// --- Timestamps ---
+// Numeric dates ("31/12/2020, 21:41", "12/31/20 9:41 PM", "2020-12-31 21:41:05") are read field by field because
+// Date.parse does not handle most of them; anything else (e.g. ISO strings with a zone) falls back to Date.parse.
+const NUMERIC_TIMESTAMP = /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})(?:[,\sT]+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?(?:\.\d+)?\s*(?:([ap])\.?\s?m\.?)?)?/i;
+
+// Day/month order is decided per export: any first field above 12 means day first, any second field above 12 means
+// month first. Ambiguous exports are read day first, the more common order.
+const isDayFirst = (timestamps: string[]): boolean => {
+  for (const timestamp of timestamps) {
+    const match = NUMERIC_TIMESTAMP.exec(timestamp);
+    if (!match || match[1].length === 4) continue;
+    if (Number(match[1]) > 12) return true;
+    if (Number(match[2]) > 12) return false;
+  }
+  return true;
+};
+
+const toIsoDate = (timestamp: string, dayFirst: boolean): string | undefined => {
+  const match = NUMERIC_TIMESTAMP.exec(timestamp.trim());
+  if (!match || /[zZ]|[+-]\d{2}:?\d{2}$/.test(timestamp.trim().slice(10))) {
+    const time = Date.parse(timestamp);
+    return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+  }
+  const [, a, b, c, hours = '0', minutes = '0', seconds = '0', meridiem] = match;
+  const [year, month, day] = a.length === 4 ? [a, b, c] : dayFirst ? [c, b, a] : [c, a, b];
+  let hour = Number(hours) % (meridiem ? 12 : 24);
+  if (meridiem?.toLowerCase() === 'p') hour += 12;
+  const fullYear = year.length <= 2 ? 2000 + Number(year) : Number(year);
+  const date = new Date(fullYear, Number(month) - 1, Number(day), hour, Number(minutes), Number(seconds));
+  return date.getMonth() === Number(month) - 1 && date.getDate() === Number(day) ? date.toISOString() : undefined;
+};
+
+/**
+ * Builds persona seed text from one speaker's messages. Each of their messages is preceded by up to
+ * CHAT_IMPORT_CONTEXT_MESSAGES messages from others so replies keep their meaning; everything else is dropped.
+ * Runs of unrelated conversation are marked with "...". When the result exceeds CHAT_IMPORT_MAX_SEED_CHARS, the
+ * oldest lines are dropped.
+ */
+export const buildSpeakerSeed = (messages: ImportedChatMessage[], speaker: string): ChatSeed => {
+  const included = new Set<number>();
+  messages.forEach((message, index) => {
+    if (message.speaker !== speaker) return;
+    included.add(index);
+    for (let back = 1; back <= CHAT_IMPORT_CONTEXT_MESSAGES && index - back >= 0; back++) {
+      if (messages[index - back].speaker === speaker) break; // Their own earlier message is already included
+      included.add(index - back);
+    }
+  });
+
+  const lines: { text: string; isSpeaker: boolean; messageIndex?: number }[] = [];
+  let previousIndex = -1;
+  [...included].sort((a, b) => a - b).forEach((index) => {
+    if (previousIndex !== -1 && index !== previousIndex + 1) lines.push({ text: '...', isSpeaker: false });
+    lines.push({
+      text: `${messages[index].speaker}: ${messages[index].text}`,
+      isSpeaker: messages[index].speaker === speaker,
+      messageIndex: index,
+    });
+    previousIndex = index;
+  });
+
+  let totalLength = lines.reduce((sum, line) => sum + line.text.length + 1, 0);
+  let firstLine = 0;
+  while (totalLength > CHAT_IMPORT_MAX_SEED_CHARS && firstLine < lines.length - 1) {
+    totalLength -= lines[firstLine].text.length + 1;
+    firstLine++;
+  }
+  const keptLines = lines.slice(firstLine);
+
+  const dayFirst = isDayFirst(messages.flatMap((message) => message.timestamp ?? []));
+  const dates = keptLines
+    .filter((line) => line.isSpeaker && line.messageIndex !== undefined)
+    .flatMap((line) => {
+      const timestamp = messages[line.messageIndex!].timestamp;
+      return (timestamp && toIsoDate(timestamp, dayFirst)) || [];
+    })
+    .sort();
+
+  return {
+    chatHistory: keptLines.map((line) => line.text).join('\n'),
+    speakerMessageCount: keptLines.filter((line) => line.isSpeaker).length,
+    truncated: firstLine > 0,
+    dateRange: dates.length > 0 ? { first: dates[0], last: dates[dates.length - 1] } : undefined,
+  };
+};
@@ -0,0 +1,74 @@
+// src/lib/chat-stream.ts
+import type { GenerateResponseInput } from '@/ai/flows/generate-response';
+
+export const CHAT_STREAM_ENDPOINT = '/api/chat/stream';
+
+/** A non-2xx response from the chat stream route. 4xx messages (sign-in, verification, usage limits) are meant for the user. */
+export class ChatStreamError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
+interface StreamPersonaResponseOptions {
+  idToken: string | null;
+  signal?: AbortSignal;
+  onChunk: (text: string) => void;
+}
+
+/**
+ * Streams a persona reply from the chat stream route, calling `onChunk` with each piece of text.
+ * Resolves with the full text once the stream completes. If `signal` is aborted, rejects with an AbortError;
+ * callers keep whatever text they have already received.
+ */
+export const streamPersonaResponse = async (
+  input: GenerateResponseInput,
+  { idToken, signal, onChunk }: StreamPersonaResponseOptions
+): Promise<string> => {
+  const response = await fetch(CHAT_STREAM_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+    },
+    body: JSON.stringify(input),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    let message = `Streaming request failed with status ${response.status}.`;
+    try {
+      const errorBody = await response.json();
+      if (errorBody?.error) message = errorBody.error;
+    } catch {
+      // Non-JSON error body; keep the status message.
+    }
+    throw new ChatStreamError(message, response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let fullText = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const text = decoder.decode(value, { stream: true });
+    if (text) {
+      fullText += text;
+      onChunk(text);
+    }
+  }
+  const rest = decoder.decode();
+  if (rest) {
+    fullText += rest;
+    onChunk(rest);
+  }
+  return fullText;
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const isUsageLimitError = (error: unknown): error is ChatStreamError =>
+  error instanceof ChatStreamError && error.status === 429;
@@ -0,0 +1,106 @@
+// src/lib/chunked-analysis.ts
+// Map-reduce analysis of long seed histories. A history that fits in one prompt is analyzed in a single call;
+// a longer one is split on line boundaries into chunks of at most CHAT_ANALYSIS_CHUNK_CHARS, each chunk is
+// analyzed on its own (map), and the results are merged (reduce). Chunks run one after another so callers can
+// report progress and stay within the AI rate limits. Countable insight stats are computed over the whole history.
+import { createPersonaFromChat, type CreatePersonaFromChatOutput } from '@/ai/flows/create-persona-from-chat';
+import {
+  analyzePersonaInsights,
+  type AnalyzePersonaInsightsInput,
+  type AnalyzePersonaInsightsOutput,
+} from '@/ai/flows/analyze-persona-insights';
+import { mergePersonaDescriptions, mergePersonaInsightsNarratives } from '@/ai/flows/merge-persona-analyses';
+import { mergeChunkInsights, type ChunkInsights } from './insights-merge';
+import { computeTextStats } from './text-stats';
+import { CHAT_ANALYSIS_CHUNK_CHARS } from './constants';
+
+export interface AnalysisProgress {
+  completed: number; // AI steps finished so far
+  total: number; // Chunks plus, when there is more than one, the merge step
+}
+
+type GetIdToken = () => Promise<string | null>;
+type ProgressCallback = (progress: AnalysisProgress) => void;
+
+/** Splits a history into chunks of whole lines. A single line longer than `maxChars` is split mid-line. */
+export const splitChatHistory = (chatHistory: string, maxChars: number = CHAT_ANALYSIS_CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const line of chatHistory.split('\n')) {
+    for (let start = 0; start < Math.max(line.length, 1); start += maxChars) {
+      const piece = line.slice(start, start + maxChars);
+      if (current && current.length + piece.length + 1 > maxChars) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n${piece}` : piece;
+    }
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks.length > 0 ? chunks : [chatHistory];
+};
+
+const countLines = (text: string): number => text.split('\n').filter((line) => line.trim() && line.trim() !== '...').length;
+
+/** Writes a persona description and profile for the whole history, chunking it when it is too long for one prompt. */
+export const createPersonaFromHistory = async (
+  input: { chatHistory: string; targetSpeaker?: string },
+  getIdToken: GetIdToken,
+  onProgress?: ProgressCallback
+): Promise<CreatePersonaFromChatOutput> => {
+  const chunks = splitChatHistory(input.chatHistory);
+  const total = chunks.length === 1 ? 1 : chunks.length + 1;
+  onProgress?.({ completed: 0, total });
+
+  const partials: CreatePersonaFromChatOutput[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    partials.push(await createPersonaFromChat({
+      chatHistory: chunk,
+      targetSpeaker: input.targetSpeaker,
+      part: chunks.length > 1 ? { number: index + 1, total: chunks.length } : undefined,
+    }, await getIdToken()));
+    onProgress?.({ completed: index + 1, total });
+  }
+  if (chunks.length === 1) return partials[0];
+
+  const merged = await mergePersonaDescriptions({
+    partialDescriptions: partials.map(({ personaDescription }) => personaDescription),
+    partialProfiles: partials.map(({ profile }) => profile),
+    targetSpeaker: input.targetSpeaker,
+  }, await getIdToken());
+  onProgress?.({ completed: total, total });
+  return merged;
+};
+
+/** Analyzes personality insights for the whole history, chunking it when it is too long for one prompt. */
+export const analyzePersonaInsightsChunked = async (
+  input: AnalyzePersonaInsightsInput,
+  getIdToken: GetIdToken,
+  onProgress?: ProgressCallback
+): Promise<AnalyzePersonaInsightsOutput> => {
+  const chunks = splitChatHistory(input.chatHistory);
+  const total = chunks.length === 1 ? 1 : chunks.length + 1;
+  onProgress?.({ completed: 0, total });
+
+  const chunkInsights: ChunkInsights[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    const insights = await analyzePersonaInsights({
+      ...input,
+      chatHistory: chunk,
+      messageDates: undefined, // Only the merged result reports dates, from the full history
+      part: chunks.length > 1 ? { number: index + 1, total: chunks.length } : undefined,
+    }, await getIdToken());
+    chunkInsights.push({ insights, messageCount: countLines(chunk) });
+    onProgress?.({ completed: index + 1, total });
+  }
+  if (chunks.length === 1) return chunkInsights[0].insights;
+
+  const narrative = await mergePersonaInsightsNarratives({
+    summaries: chunkInsights.map(({ insights }) => insights.summary),
+    observedTraits: chunkInsights.flatMap(({ insights }) => insights.mbtiInsights?.observedTraits ?? []),
+    compatibilityNotes: chunkInsights.flatMap(({ insights }) => insights.mbtiInsights?.compatibilityNotes ?? []),
+    mbtiType: input.mbtiType,
+  }, await getIdToken());
+  onProgress?.({ completed: total, total });
+  return mergeChunkInsights(chunkInsights, narrative, computeTextStats(input), !!input.mbtiType);
+};
@@ -1,11 +1,64 @@
 // src/lib/constants.ts
 export const FREE_PERSONA_LIMIT = 2;
+export const PERSONA_NAME_MAX_CHARS = 50; // Matches the personas/{uid}/{id}/name security rule
+export const DEVELOPMENT_PROMPT_MAX_CHARS = 10_000; // Matches the persona_description_versions prompt security rule
+
+// AI chat memory: how many of the most recent messages are sent verbatim with each reply.
+// Older messages are rolled up into a stored running summary of the conversation.
+export const CONVERSATION_MEMORY_WINDOW = 12;
+
+// Chat views load this many messages at a time: the newest page live, older pages as the user scrolls up.
+export const CHAT_MESSAGES_PAGE_SIZE = 50;
+
+// Alternative replies kept per AI message when regenerating; the database rules allow keys 0-9 only.
+export const MAX_MESSAGE_VARIANTS = 10;
+
+// Chat export import: each of the chosen speaker's messages keeps this many preceding messages from others as context.
+// Seeds longer than the character cap keep their most recent lines.
+export const CHAT_IMPORT_CONTEXT_MESSAGES = 2;
+export const CHAT_IMPORT_MAX_SEED_CHARS = 300_000;
+export const CHAT_IMPORT_MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+// Deleted personas go to the trash, where they can be restored for this many days before they and all of their
+// chats and history are purged. Trashed personas do not count toward the persona quota.
+export const PERSONA_TRASH_RETENTION_DAYS = 30;
+
+// Seed histories longer than this are analyzed in chunks of at most this many characters and the results merged.
+export const CHAT_ANALYSIS_CHUNK_CHARS = 24_000;
+
+// Style exemplars: up to STYLE_EXEMPLAR_LIMIT of the persona's real messages (each at most STYLE_EXEMPLAR_MAX_CHARS)
+// are stored with it, and the STYLE_EXEMPLARS_PER_REPLY most relevant to the user's message are sent with each reply.
+export const STYLE_EXEMPLAR_LIMIT = 40;
+export const STYLE_EXEMPLAR_MAX_CHARS = 280;
+export const STYLE_EXEMPLARS_PER_REPLY = 5;
+
+// AI usage caps per plan, counted per UTC day and calendar month. Every AI action counts as one call.
+// A plan is 'paid' once the user has bought extra persona slots, and 'pro' while they have an active Pro subscription.
+export type AiUsagePlan = 'free' | 'paid' | 'pro';
+
+export interface AiUsageLimits {
+  dailyCalls: number;
+  monthlyCalls: number;
+  dailyTokens: number; // Input + output tokens
+  monthlyTokens: number;
+}
+
+export const AI_USAGE_LIMITS: Record<AiUsagePlan, AiUsageLimits> = {
+  free: { dailyCalls: 50, monthlyCalls: 500, dailyTokens: 200_000, monthlyTokens: 2_000_000 },
+  paid: { dailyCalls: 200, monthlyCalls: 3_000, dailyTokens: 1_000_000, monthlyTokens: 15_000_000 },
+  pro: { dailyCalls: 1_000, monthlyCalls: 20_000, dailyTokens: 5_000_000, monthlyTokens: 100_000_000 },
+};
 
 // Stripe-related constants
 export const PAID_PERSONA_PRICE_POUNDS = 2; // Price in GBP
 export const PERSONAS_PER_PURCHASE = 1; // Each purchase grants this many additional persona slots
 export const STRIPE_CURRENCY = 'gbp';
 
+// Pro subscription (Stripe subscription mode, price configured via STRIPE_PRICE_ID_PRO_SUBSCRIPTION on the server).
+// While active, Pro replaces the free persona allowance with PRO_PLAN_PERSONA_LIMIT; purchased slots still add on top.
+export const PRO_PLAN_PERSONA_LIMIT = 10;
+export const PRO_PLAN_PRICE_POUNDS_MONTHLY = 5;
+
 // Stripe Price ID for the Persona Slot Product. 
 // THIS MUST MATCH THE PRICE ID IN YOUR STRIPE DASHBOARD AND .env.
 // It's defined here for potential client-side use if needed, but primarily configured via .env for server-side.
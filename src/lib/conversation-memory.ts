@@ -0,0 +1,88 @@
+// src/lib/conversation-memory.ts
+import type { ChatMessage, ConversationSummary, Persona } from './types';
+import { getChatSummary, getChatMessagesAfter, getOlderChatMessages, saveChatSummary } from './store';
+import { summarizeConversation } from '@/ai/flows/summarize-conversation';
+import { CONVERSATION_MEMORY_WINDOW } from './constants';
+
+export interface ConversationTurn {
+  sender: 'user' | 'ai';
+  text: string;
+}
+
+export interface ConversationMemory {
+  history: ConversationTurn[];
+  conversationSummary?: string;
+}
+
+// After a roll-up only this many recent messages stay verbatim, so summarising happens every few turns rather than every turn.
+const MESSAGES_KEPT_AFTER_ROLLUP = Math.ceil(CONVERSATION_MEMORY_WINDOW / 2);
+
+const toTurn = (message: ChatMessage): ConversationTurn => ({ sender: message.sender, text: message.text });
+
+const timestampToMillis = (timestamp: ChatMessage['timestamp'] | number): number => {
+  const asNumber = Number(timestamp);
+  return Number.isFinite(asNumber) ? asNumber : new Date(timestamp).getTime();
+};
+
+// Same order as the message queries: by timestamp, then by push key.
+const isBefore = (message: ChatMessage, other: Pick<ChatMessage, 'id' | 'timestamp'>): boolean => {
+  const difference = timestampToMillis(message.timestamp) - timestampToMillis(other.timestamp);
+  return difference < 0 || (difference === 0 && message.id < other.id);
+};
+
+// Whether `message` was already folded into the summary, which then also covers its reply and every later turn.
+const isCoveredBySummary = (message: Pick<ChatMessage, 'timestamp'>, summary: ConversationSummary | null): boolean =>
+  !!summary && timestampToMillis(message.timestamp) <= summary.summarizedUpToTimestamp;
+
+/**
+ * Builds the memory sent with the next AI reply: the running summary plus a bounded window of the latest messages.
+ * When more than CONVERSATION_MEMORY_WINDOW messages are not yet covered by the summary, the older ones are folded
+ * into it and the updated summary is stored. Call this before saving the user's new message, or pass `before` to
+ * rebuild the memory an earlier turn was answered with (for regenerating a reply): only messages sent before it count.
+ * A turn older than the summary is answered from the window of messages before it alone, without the summary.
+ */
+export const buildConversationMemory = async (
+  userId: string,
+  persona: Persona,
+  idToken: string | null,
+  before?: Pick<ChatMessage, 'id' | 'timestamp'>
+): Promise<ConversationMemory> => {
+  const storedSummary = await getChatSummary(userId, persona.id);
+  if (before && isCoveredBySummary(before, storedSummary)) {
+    const earlierMessages = await getOlderChatMessages(userId, persona.id, before, CONVERSATION_MEMORY_WINDOW);
+    return { history: earlierMessages.map(toTurn) };
+  }
+  const messagesSinceSummary = await getChatMessagesAfter(userId, persona.id, storedSummary?.summarizedUpToTimestamp ?? 0);
+  const unsummarizedMessages = before ? messagesSinceSummary.filter((message) => isBefore(message, before)) : messagesSinceSummary;
+
+  if (unsummarizedMessages.length <= CONVERSATION_MEMORY_WINDOW) {
+    return { history: unsummarizedMessages.map(toTurn), conversationSummary: storedSummary?.summary };
+  }
+
+  const splitIndex = unsummarizedMessages.length - MESSAGES_KEPT_AFTER_ROLLUP;
+  const messagesToRollUp = unsummarizedMessages.slice(0, splitIndex);
+  const recentMessages = unsummarizedMessages.slice(splitIndex);
+
+  try {
+    const { summary } = await summarizeConversation({
+      personaName: persona.name,
+      previousSummary: storedSummary?.summary,
+      messages: messagesToRollUp.map(toTurn),
+    }, idToken);
+
+    await saveChatSummary(userId, persona.id, {
+      summary,
+      summarizedUpToTimestamp: timestampToMillis(messagesToRollUp[messagesToRollUp.length - 1].timestamp),
+      summarizedMessagesCount: (storedSummary?.summarizedMessagesCount ?? 0) + messagesToRollUp.length,
+      updatedAt: new Date().toISOString(),
+    });
+    return { history: recentMessages.map(toTurn), conversationSummary: summary };
+  } catch (error) {
+    // Summarising is best-effort: reply with the previous summary and the latest window rather than failing the turn.
+    console.error("Error rolling up conversation summary:", error);
+    return {
+      history: unsummarizedMessages.slice(-CONVERSATION_MEMORY_WINDOW).map(toTurn),
+      conversationSummary: storedSummary?.summary,
+    };
+  }
+};
@@ -0,0 +1,134 @@
+// src/lib/entitlements.ts
+// Server-only access to entitlements/{uid}. Security rules let users read their own entitlements but never
+// write them, so only the Stripe webhook and admin tooling change a user's quota.
+import type { PurchaseRevocationReason, SubscriptionEntitlement, UserEntitlements } from './types';
+import { ServerValue } from 'firebase-admin/database';
+import { getAdminDb } from './firebase-admin';
+import { ENTITLEMENTS_PATH, STRIPE_CUSTOMERS_PATH, USERS_PATH } from './store';
+import { FREE_PERSONA_LIMIT } from './constants';
+import { getEffectivePersonaQuota, hasActiveProSubscription } from './plans';
+
+export type EntitlementSource = UserEntitlements['updatedBy'];
+
+const entitlementsRef = (userId: string) => getAdminDb().ref(`${ENTITLEMENTS_PATH}/${userId}`);
+
+// Entitlements are only granted to users who have signed in at least once (and so have a profile).
+export const hasUserProfile = async (userId: string): Promise<boolean> => {
+  const snapshot = await getAdminDb().ref(`${USERS_PATH}/${userId}/email`).get();
+  return snapshot.exists();
+};
+
+export const getUserEntitlements = async (userId: string): Promise<UserEntitlements | null> => {
+  const snapshot = await entitlementsRef(userId).get();
+  return snapshot.exists() ? (snapshot.val() as UserEntitlements) : null;
+};
+
+/** The persona quota to enforce right now, including any active Pro subscription. */
+export const getPersonaQuotaForUser = async (userId: string): Promise<number> =>
+  getEffectivePersonaQuota(await getUserEntitlements(userId));
+
+/**
+ * The root-relative writes that add a purchase's persona slots on top of the current quota (the free limit if none is
+ * stored) and record the purchase id, so it is never credited twice. The caller applies them in the same multi-path
+ * update as the purchase's ledger entry, so the credit and the ledger can never disagree.
+ */
+export const getPersonaSlotCreditUpdates = (
+  userId: string,
+  current: UserEntitlements | null,
+  purchaseId: string,
+  units: number,
+  source: EntitlementSource
+): Record<string, unknown> => {
+  const path = `${ENTITLEMENTS_PATH}/${userId}`;
+  return {
+    // An increment keeps concurrent changes to the quota; without a stored quota the free limit is the base.
+    [`${path}/personaQuota`]: typeof current?.personaQuota === 'number' ? ServerValue.increment(units) : FREE_PERSONA_LIMIT + units,
+    [`${path}/creditedPurchases/${purchaseId}`]: units,
+    [`${path}/updatedAt`]: new Date().toISOString(),
+    [`${path}/updatedBy`]: source,
+  };
+};
+
+/**
+ * Takes back the slots a purchase granted, once, after a refund or dispute. The quota may drop below the number of
+ * personas the user has; the excess personas are then soft-locked (see persona-locks.ts), never deleted.
+ */
+export const revokePersonaSlotsForPurchase = async (
+  userId: string,
+  purchaseId: string,
+  reason: PurchaseRevocationReason
+): Promise<{ personaQuota: number; revokedUnits: number }> => {
+  let revokedUnits = 0;
+  const { committed, snapshot } = await entitlementsRef(userId).transaction((current: UserEntitlements | null) => {
+    revokedUnits = 0;
+    const creditedUnits = current?.creditedPurchases?.[purchaseId];
+    if (!current || creditedUnits === undefined || current.revokedPurchases?.[purchaseId] !== undefined) {
+      return current; // Never credited, or already revoked
+    }
+    revokedUnits = creditedUnits;
+    const now = new Date().toISOString();
+    return {
+      ...current,
+      personaQuota: Math.max(0, current.personaQuota - creditedUnits),
+      revokedPurchases: { ...(current.revokedPurchases ?? {}), [purchaseId]: creditedUnits },
+      lastRevocation: { purchaseId, reason, units: creditedUnits, revokedAt: now },
+      updatedAt: now,
+      updatedBy: 'stripe-webhook',
+    };
+  });
+  if (!committed) throw new Error(`Could not update entitlements for ${userId}.`);
+  const entitlements = snapshot.val() as UserEntitlements | null;
+  return { personaQuota: entitlements?.personaQuota ?? FREE_PERSONA_LIMIT, revokedUnits };
+};
+
+// Subscription events identify the user only by Stripe customer, so each customer is indexed back to its user.
+export const linkStripeCustomer = async (userId: string, customerId: string): Promise<void> => {
+  await getAdminDb().ref().update({
+    [`${STRIPE_CUSTOMERS_PATH}/${customerId}`]: userId,
+    [`${ENTITLEMENTS_PATH}/${userId}/stripeCustomerId`]: customerId,
+  });
+};
+
+export const getUserIdForStripeCustomer = async (customerId: string): Promise<string | null> => {
+  const snapshot = await getAdminDb().ref(`${STRIPE_CUSTOMERS_PATH}/${customerId}`).get();
+  return typeof snapshot.val() === 'string' ? snapshot.val() : null;
+};
+
+/**
+ * Stores the latest state of the user's subscription. An update for a different, inactive subscription never
+ * replaces an active one (e.g. an old canceled subscription's late event after the user resubscribed).
+ */
+export const setSubscriptionEntitlement = async (
+  userId: string,
+  subscription: Omit<SubscriptionEntitlement, 'updatedAt'>,
+  source: EntitlementSource
+): Promise<void> => {
+  const incoming: SubscriptionEntitlement = { ...subscription, updatedAt: new Date().toISOString() };
+  const { committed } = await entitlementsRef(userId).transaction((current: UserEntitlements | null) => {
+    const existing = current?.subscription;
+    if (
+      existing &&
+      existing.subscriptionId !== incoming.subscriptionId &&
+      hasActiveProSubscription(current) &&
+      !hasActiveProSubscription({ ...current!, subscription: incoming })
+    ) {
+      return current;
+    }
+    return {
+      ...(current ?? {}),
+      personaQuota: typeof current?.personaQuota === 'number' ? current.personaQuota : FREE_PERSONA_LIMIT,
+      subscription: incoming,
+      updatedAt: incoming.updatedAt,
+      updatedBy: source,
+    };
+  });
+  if (!committed) throw new Error(`Could not update the subscription entitlement for ${userId}.`);
+};
+
+export const setPersonaQuota = async (userId: string, personaQuota: number, source: EntitlementSource): Promise<void> => {
+  await entitlementsRef(userId).update({
+    personaQuota,
+    updatedAt: new Date().toISOString(),
+    updatedBy: source,
+  });
+};
@@ -0,0 +1,42 @@
+// src/lib/firebase-admin.ts
+// Server-only Firebase Admin SDK access. Never import this from client components.
+import { initializeApp, getApps, getApp, cert, applicationDefault, type App } from 'firebase-admin/app';
+import { getAuth, type Auth } from 'firebase-admin/auth';
+import { getDatabase, type Database } from 'firebase-admin/database';
+
+let _adminApp: App | null = null;
+
+function getAdminApp(): App {
+  if (_adminApp) return _adminApp;
+  if (getApps().length) {
+    _adminApp = getApp();
+    return _adminApp;
+  }
+
+  const databaseURL = process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL;
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+
+  if (serviceAccountJson) {
+    _adminApp = initializeApp({
+      credential: cert(JSON.parse(serviceAccountJson)),
+      databaseURL,
+      projectId,
+    });
+  } else {
+    // On Firebase App Hosting / Cloud Run, Application Default Credentials are available.
+    // With FIREBASE_AUTH_EMULATOR_HOST / FIREBASE_DATABASE_EMULATOR_HOST set, the Admin SDK talks to the local emulators instead.
+    if (process.env.NODE_ENV !== 'production' && !process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+      console.warn('[Firebase Admin] FIREBASE_SERVICE_ACCOUNT_KEY is not set. Falling back to Application Default Credentials.');
+    }
+    _adminApp = initializeApp({
+      credential: applicationDefault(),
+      databaseURL,
+      projectId,
+    });
+  }
+  return _adminApp;
+}
+
+export const getAdminAuth = (): Auth => getAuth(getAdminApp());
+export const getAdminDb = (): Database => getDatabase(getAdminApp());
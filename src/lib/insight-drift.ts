@@ -0,0 +1,113 @@
+// src/lib/insight-drift.ts
+// Turns saved insight snapshots into chart series and compares two snapshots, to show how a persona drifts over time.
+import type { PersonaInsightSnapshot } from './types';
+
+export interface InsightTrendPoint {
+  snapshotId: string;
+  createdAt: string;
+  positive: number;
+  negative: number;
+  neutral: number;
+  useOfEmojis: number;
+  questionRate: number;
+  keywords: Record<string, number>; // Frequency of each trend keyword in this snapshot (0 when absent)
+}
+
+export interface InsightTrend {
+  points: InsightTrendPoint[]; // Oldest first
+  keywords: string[]; // The keywords charted across snapshots
+}
+
+export interface MetricChange {
+  label: string;
+  unit: '%' | 'words' | '';
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+  kept: string[];
+}
+
+export interface InsightSnapshotDiff {
+  metrics: MetricChange[];
+  keywords: ListChange;
+  traits: ListChange;
+  frequentPhrases: ListChange;
+  summaryChanged: boolean;
+}
+
+const TREND_KEYWORD_COUNT = 5;
+
+const roundTo1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Builds the chart series for a persona's snapshots. The keyword series follows the keywords that rank highest
+ * across all snapshots combined, so a keyword that fades out stays visible as a falling line.
+ */
+export const buildInsightTrend = (snapshots: PersonaInsightSnapshot[]): InsightTrend => {
+  const keywordTotals = new Map<string, number>();
+  snapshots.forEach(({ insights }) => {
+    insights.topKeywords.forEach(({ keyword, frequency }) => {
+      const key = keyword.toLowerCase();
+      keywordTotals.set(key, (keywordTotals.get(key) ?? 0) + frequency);
+    });
+  });
+  const keywords = [...keywordTotals.entries()]
+    .sort(([a, totalA], [b, totalB]) => totalB - totalA || a.localeCompare(b))
+    .slice(0, TREND_KEYWORD_COUNT)
+    .map(([keyword]) => keyword);
+
+  const points = snapshots.map(({ id, createdAt, insights }) => {
+    const frequencies = new Map(insights.topKeywords.map(({ keyword, frequency }) => [keyword.toLowerCase(), frequency]));
+    return {
+      snapshotId: id,
+      createdAt,
+      positive: insights.sentiment.positive,
+      negative: insights.sentiment.negative,
+      neutral: insights.sentiment.neutral,
+      useOfEmojis: insights.communicationStyle.useOfEmojis,
+      questionRate: insights.communicationStyle.questionRate,
+      keywords: Object.fromEntries(keywords.map((keyword) => [keyword, frequencies.get(keyword) ?? 0])),
+    };
+  });
+  return { points, keywords };
+};
+
+const compareLists = (from: string[], to: string[]): ListChange => {
+  const fromSet = new Set(from.map((item) => item.toLowerCase()));
+  const toSet = new Set(to.map((item) => item.toLowerCase()));
+  return {
+    added: to.filter((item) => !fromSet.has(item.toLowerCase())),
+    removed: from.filter((item) => !toSet.has(item.toLowerCase())),
+    kept: to.filter((item) => fromSet.has(item.toLowerCase())),
+  };
+};
+
+const metric = (label: string, unit: MetricChange['unit'], from: number | undefined, to: number | undefined): MetricChange[] =>
+  from === undefined || to === undefined ? [] : [{ label, unit, from, to, delta: roundTo1(to - from) }];
+
+/** Compares an older snapshot with a newer one. Metrics missing from either snapshot are left out. */
+export const diffInsightSnapshots = (from: PersonaInsightSnapshot, to: PersonaInsightSnapshot): InsightSnapshotDiff => {
+  const a = from.insights;
+  const b = to.insights;
+  return {
+    metrics: [
+      ...metric('Positive sentiment', '%', a.sentiment.positive, b.sentiment.positive),
+      ...metric('Negative sentiment', '%', a.sentiment.negative, b.sentiment.negative),
+      ...metric('Neutral sentiment', '%', a.sentiment.neutral, b.sentiment.neutral),
+      ...metric('Messages with emojis', '%', a.communicationStyle.useOfEmojis, b.communicationStyle.useOfEmojis),
+      ...metric('Question rate', '%', a.communicationStyle.questionRate, b.communicationStyle.questionRate),
+      ...metric('Avg. message length', 'words', a.communicationStyle.averageMessageLength, b.communicationStyle.averageMessageLength),
+      ...metric('Avg. sentence length', 'words', a.linguisticFeatures?.averageSentenceLength, b.linguisticFeatures?.averageSentenceLength),
+      ...metric('Unique words', '', a.linguisticFeatures?.uniqueWordCount, b.linguisticFeatures?.uniqueWordCount),
+    ],
+    keywords: compareLists(a.topKeywords.map(({ keyword }) => keyword), b.topKeywords.map(({ keyword }) => keyword)),
+    traits: compareLists(a.mbtiInsights?.observedTraits ?? [], b.mbtiInsights?.observedTraits ?? []),
+    frequentPhrases: compareLists(a.linguisticFeatures?.frequentPhrases ?? [], b.linguisticFeatures?.frequentPhrases ?? []),
+    summaryChanged: a.summary.trim() !== b.summary.trim(),
+  };
+};
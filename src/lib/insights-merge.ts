@@ -0,0 +1,64 @@
+// src/lib/insights-merge.ts
+// Deterministic reduce step for chunked insight analysis: combines the per-chunk sentiment of
+// AnalyzePersonaInsightsOutput results, weighted by how much of the history each chunk covers, so it sums to 100.
+// The countable stats are not merged: they are recomputed over the whole history (see text-stats.ts).
+import type { AnalyzePersonaInsightsOutput } from '@/ai/flows/analyze-persona-insights';
+import type { TextStats } from './text-stats';
+
+export interface ChunkInsights {
+  insights: AnalyzePersonaInsightsOutput;
+  messageCount: number; // Lines in the chunk, the weight for per-message rates
+}
+
+export interface MergedNarrative {
+  summary: string;
+  observedTraits: string[];
+  compatibilityNotes?: string;
+}
+
+const roundTo1 = (value: number): number => Math.round(value * 10) / 10;
+
+const weightedMean = (values: { value: number; weight: number }[]): number => {
+  const totalWeight = values.reduce((sum, { weight }) => sum + weight, 0);
+  if (totalWeight <= 0) return 0;
+  return values.reduce((sum, { value, weight }) => sum + value * weight, 0) / totalWeight;
+};
+
+/** Rounds percentages to one decimal so they sum to exactly 100, putting the rounding remainder on the largest. */
+export const normalizePercentages = <K extends string>(values: Record<K, number>): Record<K, number> => {
+  const keys = Object.keys(values) as K[];
+  const total = keys.reduce((sum, key) => sum + Math.max(0, values[key] || 0), 0);
+  if (total <= 0) {
+    return Object.fromEntries(keys.map((key, index) => [key, index === keys.length - 1 ? 100 : 0])) as Record<K, number>;
+  }
+  const normalized = Object.fromEntries(
+    keys.map((key) => [key, roundTo1((Math.max(0, values[key] || 0) / total) * 100)])
+  ) as Record<K, number>;
+  const largestKey = keys.reduce((largest, key) => (normalized[key] > normalized[largest] ? key : largest), keys[0]);
+  normalized[largestKey] = roundTo1(normalized[largestKey] + 100 - keys.reduce((sum, key) => sum + normalized[key], 0));
+  return normalized;
+};
+
+/** Merges per-chunk insights into one result. Prose (summary, MBTI notes) comes from the LLM merge step. */
+export const mergeChunkInsights = (
+  chunks: ChunkInsights[],
+  narrative: MergedNarrative,
+  stats: TextStats,
+  hasMbtiType: boolean
+): AnalyzePersonaInsightsOutput => {
+  const byMessages = (pick: (insights: AnalyzePersonaInsightsOutput) => number) =>
+    roundTo1(weightedMean(chunks.map(({ insights, messageCount }) => ({ value: pick(insights), weight: messageCount }))));
+
+  return JSON.parse(JSON.stringify({
+    summary: narrative.summary,
+    sentiment: normalizePercentages({
+      positive: byMessages((insights) => insights.sentiment.positive),
+      negative: byMessages((insights) => insights.sentiment.negative),
+      neutral: byMessages((insights) => insights.sentiment.neutral),
+    }),
+    mbtiInsights: hasMbtiType
+      ? { observedTraits: narrative.observedTraits, compatibilityNotes: narrative.compatibilityNotes }
+      : undefined,
+    ...stats,
+  }));
+};
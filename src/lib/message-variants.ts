@@ -0,0 +1,30 @@
+// src/lib/message-variants.ts
+// Alternative AI replies stored on a ChatMessage. `text` always holds the variant being shown, so everything that
+// reads messages (memory, summaries, exports) sees the chosen reply without knowing about variants.
+import type { ChatMessage } from './types';
+import { MAX_MESSAGE_VARIANTS } from './constants';
+
+type VariantFields = Pick<ChatMessage, 'text' | 'variants' | 'variantIndex'>;
+
+/** All replies for the message, oldest first. Messages that were never regenerated have just their text. */
+export const getMessageVariants = (message: VariantFields): string[] =>
+  message.variants && message.variants.length > 0 ? message.variants : [message.text];
+
+export const getMessageVariantIndex = (message: VariantFields): number => {
+  const variants = getMessageVariants(message);
+  const index = message.variantIndex ?? variants.length - 1;
+  return Math.min(Math.max(index, 0), variants.length - 1);
+};
+
+/** Adds a regenerated reply and shows it. The oldest variants are dropped beyond MAX_MESSAGE_VARIANTS. */
+export const addMessageVariant = (message: VariantFields, text: string): Required<VariantFields> => {
+  const variants = [...getMessageVariants(message), text].slice(-MAX_MESSAGE_VARIANTS);
+  return { text, variants, variantIndex: variants.length - 1 };
+};
+
+/** Shows another stored reply. Returns null when the index is out of range. */
+export const selectMessageVariant = (message: VariantFields, index: number): Required<VariantFields> | null => {
+  const variants = getMessageVariants(message);
+  if (index < 0 || index >= variants.length) return null;
+  return { text: variants[index], variants, variantIndex: index };
+};
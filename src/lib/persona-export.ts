@@ -0,0 +1,171 @@
+// src/lib/persona-export.ts
+// The persona export file (ExportedPersonaData) and its versioned schema. Exports are written by the persona page
+// and read back by the dashboard import, which validates them here both in the browser and again on the server.
+import { z } from 'zod';
+import type { ChatMessage, ExportedPersonaData, NewPersonaData, Persona } from './types';
+import { PERSONA_FORMALITY_LEVELS, PERSONA_MESSAGE_LENGTHS } from './types';
+import { MAX_MESSAGE_VARIANTS, PERSONA_NAME_MAX_CHARS, STYLE_EXEMPLAR_LIMIT, STYLE_EXEMPLAR_MAX_CHARS } from './constants';
+import { PERSONA_PROFILE_LIST_ITEM_MAX_CHARS, PERSONA_PROFILE_LIST_LIMIT, PERSONA_PROFILE_TEXT_MAX_CHARS } from './persona-profile';
+
+// Bump when the file format changes in a way older readers cannot handle, and keep parsing the older versions.
+// Files exported before the version field existed have the version 1 layout.
+export const PERSONA_EXPORT_VERSION = 1;
+export const PERSONA_IMPORT_MAX_FILE_BYTES = 4 * 1024 * 1024;
+export const PERSONA_IMPORT_MAX_MESSAGES = 5_000;
+
+export class PersonaImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonaImportError';
+  }
+}
+
+const profileListSchema = z.array(z.string().max(PERSONA_PROFILE_LIST_ITEM_MAX_CHARS)).max(PERSONA_PROFILE_LIST_LIMIT);
+const profileTextSchema = z.string().max(PERSONA_PROFILE_TEXT_MAX_CHARS);
+
+// Mirrors AnalyzePersonaInsightsOutput, which the flow module cannot export as a schema.
+const percentSchema = z.number().min(0).max(100);
+const personalityInsightsSchema = z.object({
+  summary: z.string().max(5_000),
+  sentiment: z.object({ positive: percentSchema, negative: percentSchema, neutral: percentSchema }),
+  communicationStyle: z.object({
+    averageMessageLength: z.number().min(0),
+    questionRate: percentSchema,
+    useOfEmojis: percentSchema,
+  }),
+  topKeywords: z.array(z.object({ keyword: z.string().max(200), frequency: z.number().min(0) })).max(10),
+  mbtiInsights: z.object({
+    observedTraits: z.array(z.string().max(500)).max(50),
+    compatibilityNotes: z.string().max(2_000).optional(),
+  }).optional(),
+  linguisticFeatures: z.object({
+    wordCount: z.number().min(0),
+    uniqueWordCount: z.number().min(0),
+    averageSentenceLength: z.number().min(0),
+    frequentPhrases: z.array(z.string().max(200)).max(5).optional(),
+  }).optional(),
+  interactionStats: z.object({
+    totalMessages: z.number().min(0).optional(),
+    userMessagesCount: z.number().min(0).optional(),
+    aiMessagesCount: z.number().min(0).optional(),
+    averageMessagesPerDay: z.number().min(0).optional(),
+    firstMessageDate: z.string().max(40).optional(),
+    lastMessageDate: z.string().max(40).optional(),
+  }).optional(),
+});
+
+// Unknown keys are dropped, so only fields the app knows about are ever written back to the database. That also
+// drops the ids and createdAt, which the server assigns afresh, and the source chat link of chat-derived personas,
+// since that chat belongs to the exporting account.
+const exportedPersonaSchema = z.object({
+  name: z.string().trim().min(1).max(PERSONA_NAME_MAX_CHARS),
+  personaDescription: z.string().max(20_000).optional(),
+  profile: z.object({
+    tone: profileTextSchema.optional(),
+    formality: z.enum(PERSONA_FORMALITY_LEVELS).optional(),
+    vocabulary: profileTextSchema.optional(),
+    catchphrases: profileListSchema.optional(),
+    emojiHabits: profileTextSchema.optional(),
+    messageLength: z.enum(PERSONA_MESSAGE_LENGTHS).optional(),
+    typingQuirks: profileListSchema.optional(),
+    interests: profileListSchema.optional(),
+    topicsToAvoid: profileListSchema.optional(),
+  }).optional(),
+  styleExemplars: z.array(z.string().max(STYLE_EXEMPLAR_MAX_CHARS)).max(STYLE_EXEMPLAR_LIMIT).optional(),
+  avatarUrl: z.string().url().max(2_000).optional(),
+  category: z.string().max(50).optional(),
+  originType: z.enum(['user-created', 'chat-derived']),
+  chatHistory: z.string().max(1_000_000).optional(),
+  seedSpeaker: z.string().max(100).optional(),
+  seedDateRange: z.object({ first: z.string().max(40), last: z.string().max(40) }).optional(),
+  mbti: z.string().max(10).optional(),
+  age: z.number().int().min(1).max(120).optional(),
+  gender: z.string().max(50).optional(),
+  personalityInsights: personalityInsightsSchema.optional(),
+  sourceChatMessagesCount: z.number().int().min(0).optional(),
+});
+
+// A persona the client asks the server to create. Unlike an export it may link a chat-derived persona to its source
+// chat, which the create action checks belongs to the caller. Admin writes skip the security rules, so this mirrors them.
+const newPersonaSchema = exportedPersonaSchema.extend({
+  derivedFromChatId: z.string().max(200).optional(),
+  derivedRepresentingUserId: z.string().max(200).optional(),
+});
+
+// A persona read back from a node the client can write freely (the trash), keeping what a restore must preserve.
+const storedPersonaSchema = newPersonaSchema.extend({
+  createdAt: z.string().max(40),
+});
+
+const exportedChatMessageSchema = z.object({
+  sender: z.enum(['user', 'ai']),
+  text: z.string().min(1).max(9_999),
+  timestamp: z.union([z.string(), z.number()]),
+  context: z.string().max(10_000).optional(),
+  variants: z.array(z.string().min(1).max(9_999)).max(MAX_MESSAGE_VARIANTS).optional(),
+  variantIndex: z.number().int().min(0).max(MAX_MESSAGE_VARIANTS - 1).optional(),
+  editedAt: z.number().optional(),
+});
+
+const exportedPersonaDataV1Schema = z.object({
+  exportVersion: z.literal(1).optional(),
+  exportedAt: z.string().optional(),
+  personaDetails: exportedPersonaSchema,
+  chatMessagesWithAI: z.array(exportedChatMessageSchema).max(PERSONA_IMPORT_MAX_MESSAGES).optional(),
+});
+
+export type ImportedChatMessage = Omit<ChatMessage, 'id' | 'timestamp'> & { timestamp: string | number };
+
+export interface ParsedPersonaExport {
+  persona: NewPersonaData;
+  chatMessages: ImportedChatMessage[];
+}
+
+export const buildPersonaExport = (persona: Persona, chatMessagesWithAI: ChatMessage[]): ExportedPersonaData => ({
+  exportVersion: PERSONA_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  personaDetails: persona,
+  chatMessagesWithAI,
+});
+
+const describeFirstIssue = (error: z.ZodError): string => {
+  const issue = error.issues[0];
+  const location = issue?.path.length ? ` (at ${issue.path.join('.')})` : '';
+  return `${issue?.message ?? 'unknown error'}${location}`;
+};
+
+/** Validates persona data sent by the client for creation, keeping only the fields a persona may have. */
+export const parseNewPersona = (data: unknown): { success: true; persona: NewPersonaData } | { success: false; message: string } => {
+  const parsed = newPersonaSchema.safeParse(data);
+  return parsed.success
+    ? { success: true, persona: parsed.data as NewPersonaData }
+    : { success: false, message: `Invalid persona: ${describeFirstIssue(parsed.error)}.` };
+};
+
+/**
+ * Validates a parsed export file and returns the persona and AI chat messages to recreate, without their old ids.
+ * Throws PersonaImportError with a message suitable for the user.
+ */
+export const parsePersonaExport = (data: unknown): ParsedPersonaExport => {
+  const version = (data as { exportVersion?: unknown } | null)?.exportVersion;
+  if (typeof version === 'number' && version > PERSONA_EXPORT_VERSION) {
+    throw new PersonaImportError('This file was exported by a newer version of the app and cannot be imported yet.');
+  }
+
+  const parsed = exportedPersonaDataV1Schema.safeParse(data);
+  if (!parsed.success) {
+    throw new PersonaImportError(`This file is not a valid persona export: ${describeFirstIssue(parsed.error)}.`);
+  }
+
+  // Without its source chat link a chat-derived persona is no longer tied to a chat, so it comes back as an ordinary one.
+  return {
+    persona: { ...parsed.data.personaDetails, originType: 'user-created' } as NewPersonaData,
+    chatMessages: parsed.data.chatMessagesWithAI ?? [],
+  };
+};
+
+/** Validates a trashed persona before it is restored. Returns null when it is not a valid persona. */
+export const parseTrashedPersona = (persona: unknown, personaId: string): Persona | null => {
+  const parsed = storedPersonaSchema.safeParse(persona);
+  return parsed.success ? ({ ...parsed.data, id: personaId } as Persona) : null;
+};
@@ -0,0 +1,16 @@
+// src/lib/persona-locks.ts
+// When a user's persona quota drops below the number of personas they have (e.g. after a refund or dispute),
+// the excess personas are soft-locked: they are kept, but cannot be chatted with until the user deletes others or
+// buys more slots. The oldest personas stay unlocked. Locks are derived from the quota, so they lift automatically.
+import type { Persona } from './types';
+
+const byCreationOrder = (a: Pick<Persona, 'createdAt'>, b: Pick<Persona, 'createdAt'>): number =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+export const getLockedPersonaIds = (personas: Pick<Persona, 'id' | 'createdAt'>[], personaQuota: number): Set<string> => {
+  if (personas.length <= personaQuota) return new Set();
+  return new Set([...personas].sort(byCreationOrder).slice(Math.max(0, personaQuota)).map(persona => persona.id));
+};
+
+/** `creationRank` is the 1-based position of the persona among the user's personas, oldest first. */
+export const isPersonaLockedAtRank = (creationRank: number, personaQuota: number): boolean => creationRank > personaQuota;
@@ -0,0 +1,69 @@
+// src/lib/persona-profile.ts
+// Labels for the structured persona profile and the text it compiles to in the chat prompt.
+import type { PersonaFormality, PersonaMessageLength, PersonaProfile } from './types';
+
+export const PERSONA_FORMALITY_LABELS: Record<PersonaFormality, string> = {
+  'very-casual': 'Very casual',
+  casual: 'Casual',
+  neutral: 'Neutral',
+  formal: 'Formal',
+  'very-formal': 'Very formal',
+};
+
+export const PERSONA_MESSAGE_LENGTH_LABELS: Record<PersonaMessageLength, string> = {
+  'very-short': 'Very short (a few words)',
+  short: 'Short (one or two sentences)',
+  medium: 'Medium (a short paragraph)',
+  long: 'Long (several paragraphs)',
+};
+
+export const PERSONA_PROFILE_LIST_LIMIT = 10;
+export const PERSONA_PROFILE_TEXT_MAX_CHARS = 500;
+export const PERSONA_PROFILE_LIST_ITEM_MAX_CHARS = 200;
+
+const cleanList = (items: string[] | undefined): string[] | undefined => {
+  const trimmed = (items ?? []).map((item) => item.trim().slice(0, PERSONA_PROFILE_LIST_ITEM_MAX_CHARS)).filter(Boolean);
+  const cleaned = [...new Set(trimmed)].slice(0, PERSONA_PROFILE_LIST_LIMIT);
+  return cleaned.length > 0 ? cleaned : undefined;
+};
+
+const cleanText = (text: string | undefined): string | undefined => text?.trim().slice(0, PERSONA_PROFILE_TEXT_MAX_CHARS) || undefined;
+
+/** Trims every field (cutting overlong ones to the stored limits) and drops empty ones. Returns undefined when nothing is left. */
+export const cleanPersonaProfile = (profile: PersonaProfile | undefined): PersonaProfile | undefined => {
+  if (!profile) return undefined;
+  const cleaned: PersonaProfile = JSON.parse(JSON.stringify({
+    tone: cleanText(profile.tone),
+    formality: profile.formality,
+    vocabulary: cleanText(profile.vocabulary),
+    catchphrases: cleanList(profile.catchphrases),
+    emojiHabits: cleanText(profile.emojiHabits),
+    messageLength: profile.messageLength,
+    typingQuirks: cleanList(profile.typingQuirks),
+    interests: cleanList(profile.interests),
+    topicsToAvoid: cleanList(profile.topicsToAvoid),
+  }));
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+/** Whether two profiles hold the same values once cleaned. */
+export const isSamePersonaProfile = (a: PersonaProfile | undefined, b: PersonaProfile | undefined): boolean =>
+  JSON.stringify(cleanPersonaProfile(a) ?? null) === JSON.stringify(cleanPersonaProfile(b) ?? null);
+
+/** Compiles a profile into prompt instructions, one line per filled-in field. Empty profiles compile to ''. */
+export const formatPersonaProfile = (profile: PersonaProfile | undefined): string => {
+  const cleaned = cleanPersonaProfile(profile);
+  if (!cleaned) return '';
+  const quoted = (items: string[]) => items.map((item) => `"${item}"`).join(', ');
+  return [
+    cleaned.tone && `- Tone: ${cleaned.tone}`,
+    cleaned.formality && `- Formality: ${PERSONA_FORMALITY_LABELS[cleaned.formality].toLowerCase()}`,
+    cleaned.vocabulary && `- Vocabulary: ${cleaned.vocabulary}`,
+    cleaned.catchphrases && `- Catchphrases (use naturally, not in every message): ${quoted(cleaned.catchphrases)}`,
+    cleaned.emojiHabits && `- Emoji habits: ${cleaned.emojiHabits}`,
+    cleaned.messageLength && `- Typical message length: ${PERSONA_MESSAGE_LENGTH_LABELS[cleaned.messageLength].toLowerCase()}`,
+    cleaned.typingQuirks && `- Typing quirks: ${cleaned.typingQuirks.join('; ')}`,
+    cleaned.interests && `- Interests: ${cleaned.interests.join(', ')}`,
+    cleaned.topicsToAvoid && `- Topics to avoid (steer away in character if they come up): ${cleaned.topicsToAvoid.join(', ')}`,
+  ].filter(Boolean).join('\n');
+};
@@ -0,0 +1,21 @@
+// src/lib/plans.ts
+// Derives what a user is entitled to from entitlements/{uid}. Shared by the server (quota and usage checks) and the UI.
+import type { UserEntitlements } from './types';
+import { FREE_PERSONA_LIMIT, PRO_PLAN_PERSONA_LIMIT, type AiUsagePlan } from './constants';
+
+// Stripe keeps access during payment retries ('past_due'); anything else (canceled, unpaid, incomplete...) ends Pro.
+const ENTITLED_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+export const hasActiveProSubscription = (entitlements: UserEntitlements | null | undefined): boolean =>
+  !!entitlements?.subscription && ENTITLED_SUBSCRIPTION_STATUSES.includes(entitlements.subscription.status);
+
+/** The number of personas the user may keep: their free or Pro allowance plus any purchased slots. */
+export const getEffectivePersonaQuota = (entitlements: UserEntitlements | null | undefined): number => {
+  const slotQuota = typeof entitlements?.personaQuota === 'number' ? entitlements.personaQuota : FREE_PERSONA_LIMIT;
+  return hasActiveProSubscription(entitlements) ? slotQuota - FREE_PERSONA_LIMIT + PRO_PLAN_PERSONA_LIMIT : slotQuota;
+};
+
+export const getUserPlan = (entitlements: UserEntitlements | null | undefined): AiUsagePlan => {
+  if (hasActiveProSubscription(entitlements)) return 'pro';
+  return typeof entitlements?.personaQuota === 'number' && entitlements.personaQuota > FREE_PERSONA_LIMIT ? 'paid' : 'free';
+};
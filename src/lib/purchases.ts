@@ -0,0 +1,133 @@
+// src/lib/purchases.ts
+// Server-only purchase ledger at purchases/{userId}/{sessionId}. Users can read their own history; only the server writes it.
+//
+// Fulfilment is idempotent and atomic: a delivery first claims the pending ledger entry in a transaction, so only one
+// delivery at a time can fulfil a session, then credits the slots and marks the entry fulfilled in one multi-path
+// update. A retried or duplicated webhook delivery therefore converges on one credit and one fulfilled ledger entry,
+// and a crash never leaves slots credited without a fulfilled entry (or the reverse).
+import type { PurchaseRecord, PurchaseRevocationReason } from './types';
+import { getAdminDb } from './firebase-admin';
+import { PURCHASES_PATH_BASE, PURCHASE_PAYMENT_INTENTS_PATH } from './store';
+import { FREE_PERSONA_LIMIT } from './constants';
+import {
+  getPersonaSlotCreditUpdates,
+  getUserEntitlements,
+  revokePersonaSlotsForPurchase,
+  type EntitlementSource,
+} from './entitlements';
+
+export interface PurchaseDetails {
+  userId: string;
+  sessionId: string;
+  amount: number; // Minor units
+  currency: string;
+  units: number;
+  paymentIntentId?: string;
+}
+
+// A delivery holds its claim on a purchase for this long; an older claim was abandoned (e.g. the server crashed).
+const FULFILLMENT_CLAIM_TTL_MS = 60_000;
+
+const purchasePath = (userId: string, sessionId: string) => `${PURCHASES_PATH_BASE}/${userId}/${sessionId}`;
+
+const purchaseRef = (userId: string, sessionId: string) => getAdminDb().ref(purchasePath(userId, sessionId));
+
+const toRecord = (details: PurchaseDetails, existing: PurchaseRecord | null): PurchaseRecord => JSON.parse(JSON.stringify({
+  ...existing,
+  sessionId: details.sessionId,
+  amount: details.amount,
+  currency: details.currency,
+  units: details.units,
+  paymentIntentId: details.paymentIntentId ?? existing?.paymentIntentId,
+  createdAt: existing?.createdAt ?? new Date().toISOString(),
+}));
+
+// Refund and dispute events only carry the payment intent, so each purchase is indexed by it.
+const indexPaymentIntent = async (details: PurchaseDetails): Promise<void> => {
+  if (!details.paymentIntentId) return;
+  await getAdminDb()
+    .ref(`${PURCHASE_PAYMENT_INTENTS_PATH}/${details.paymentIntentId}`)
+    .set({ userId: details.userId, sessionId: details.sessionId });
+};
+
+export const getPurchase = async (userId: string, sessionId: string): Promise<PurchaseRecord | null> => {
+  const snapshot = await purchaseRef(userId, sessionId).get();
+  return (snapshot.val() as PurchaseRecord | null) ?? null;
+};
+
+/** Records a completed checkout whose payment has not cleared yet (e.g. a delayed payment method). Grants nothing. */
+export const recordPendingPurchase = async (details: PurchaseDetails): Promise<void> => {
+  await purchaseRef(details.userId, details.sessionId).transaction((current: PurchaseRecord | null) => {
+    if (current) return; // Never downgrade a fulfilled purchase
+    return { ...toRecord(details, null), status: 'pending' };
+  });
+  await indexPaymentIntent(details);
+};
+
+/** Credits the purchase's persona slots exactly once and marks the ledger entry fulfilled in the same write. */
+export const fulfillPurchase = async (
+  details: PurchaseDetails,
+  source: EntitlementSource
+): Promise<{ personaQuota: number; duplicate: boolean }> => {
+  const { userId, sessionId } = details;
+  const claimedAt = Date.now();
+  let settled = false;
+  const claim = await purchaseRef(userId, sessionId).transaction((current: PurchaseRecord | null) => {
+    settled = !!current && current.status !== 'pending';
+    if (settled) return; // Already fulfilled, refunded or disputed
+    if (current?.fulfillmentClaimedAt && claimedAt - current.fulfillmentClaimedAt < FULFILLMENT_CLAIM_TTL_MS) return;
+    return { ...toRecord(details, current), status: 'pending', fulfillmentClaimedAt: claimedAt };
+  });
+
+  if (!claim.committed) {
+    if (!settled) {
+      // Another delivery is fulfilling this session right now; failing lets Stripe retry once it has finished.
+      throw new Error(`Session ${sessionId} is already being fulfilled.`);
+    }
+    const entitlements = await getUserEntitlements(userId);
+    return { personaQuota: entitlements?.personaQuota ?? FREE_PERSONA_LIMIT, duplicate: true };
+  }
+
+  // Slots credited before the ledger entry was written (by an older version of this code) are not credited again.
+  const entitlements = await getUserEntitlements(userId);
+  const alreadyCredited = entitlements?.creditedPurchases?.[sessionId] !== undefined;
+  const path = purchasePath(userId, sessionId);
+  await getAdminDb().ref().update({
+    ...(alreadyCredited ? {} : getPersonaSlotCreditUpdates(userId, entitlements, sessionId, details.units, source)),
+    [`${path}/status`]: 'fulfilled',
+    [`${path}/fulfilledAt`]: new Date().toISOString(),
+    [`${path}/fulfillmentClaimedAt`]: null,
+  });
+  await indexPaymentIntent(details);
+
+  const updatedEntitlements = await getUserEntitlements(userId);
+  return { personaQuota: updatedEntitlements?.personaQuota ?? FREE_PERSONA_LIMIT, duplicate: alreadyCredited };
+};
+
+export type RevokePurchaseResult =
+  | { found: false }
+  | { found: true; userId: string; sessionId: string; personaQuota: number; revokedUnits: number };
+
+/**
+ * Looks up the purchase paid for by `paymentIntentId`, takes back the slots it granted and marks it refunded or disputed.
+ * Safe to repeat: slots are revoked at most once per purchase.
+ */
+export const revokePurchaseByPaymentIntent = async (
+  paymentIntentId: string,
+  reason: PurchaseRevocationReason
+): Promise<RevokePurchaseResult> => {
+  const indexSnapshot = await getAdminDb().ref(`${PURCHASE_PAYMENT_INTENTS_PATH}/${paymentIntentId}`).get();
+  const indexEntry = indexSnapshot.val() as { userId: string; sessionId: string } | null;
+  if (!indexEntry) return { found: false };
+
+  const { userId, sessionId } = indexEntry;
+  const { personaQuota, revokedUnits } = await revokePersonaSlotsForPurchase(userId, sessionId, reason);
+
+  await purchaseRef(userId, sessionId).transaction((current: PurchaseRecord | null) => {
+    // Returning `current` (rather than aborting) when it is null lets the transaction retry against the server value.
+    if (!current || current.status === 'refunded' || current.status === 'disputed') return current;
+    return { ...current, status: reason, revokedAt: new Date().toISOString() };
+  });
+
+  return { found: true, userId, sessionId, personaQuota, revokedUnits };
+};
@@ -0,0 +1,15 @@
+// src/lib/server-auth.ts
+// Server-only: identifies the caller of a Server Action from the Firebase ID token the client passes in.
+import { getAdminAuth } from './firebase-admin';
+
+/** Returns the verified UID for `idToken`, or null if the token is missing, expired or invalid. */
+export const verifyCallerUid = async (idToken: string | null | undefined): Promise<string | null> => {
+  if (!idToken) return null;
+  try {
+    const decodedToken = await getAdminAuth().verifyIdToken(idToken);
+    return decodedToken.uid;
+  } catch (error: any) {
+    console.warn(`[Server Auth] ID token verification failed: ${error.message}`);
+    return null;
+  }
+};
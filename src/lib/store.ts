@@ -1,5 +1,8 @@
 
-import type { Persona, ChatMessage, UserChatMessage, UserContact, UserProfile } from './types';
+import type { Persona, TrashedPersona, PersonaDescriptionVersion, PersonaInsightSnapshot, ChatMessage, ConversationSummary, UserChatMessage, UserContact, UserProfile, UserProfileUpdates, UserSecrets, UserEntitlements, PurchaseRecord, AiUsageSnapshot, AiUsagePeriod } from './types';
+import { getAiUsagePeriodKeys } from './ai-usage';
+import { cleanPersonaProfile, isSamePersonaProfile } from './persona-profile';
+import { CHAT_MESSAGES_PAGE_SIZE, PERSONA_TRASH_RETENTION_DAYS } from './constants';
 import { db } from './firebase';
 import { 
   ref, 
@@ -15,15 +18,30 @@ import {
   off,
   orderByKey,
   limitToLast,
+  startAfter,
+  endAt,
+  endBefore,
+  startAt,
   update,
+  type DataSnapshot,
 } from 'firebase/database';
 
 // Firebase Realtime Database Paths
 export const USERS_PATH = 'users'; // Stores UserProfile objects, keyed by UID
-const USER_CONTACTS_PATH_BASE = 'user_contacts'; // Stores UserContact objects: user_contacts/{currentUserId}/{contactUserId}
-const PERSONAS_PATH_BASE = 'personas'; // Stores Persona objects: personas/{userId}/{personaId}
-const AI_CHAT_MESSAGES_PATH_BASE = 'ai_chat_messages'; // Stores ChatMessage: ai_chat_messages/{userId}/{personaId}/{messageId}
-const USER_CHAT_MESSAGES_PATH_BASE = 'user_chat_messages'; // Stores UserChatMessage: user_chat_messages/{chatId}/{messageId}
+export const USER_SECRETS_PATH = 'user_secrets'; // Stores UserSecrets, keyed by UID. Only the owner can read them, unlike users/{uid}
+export const ENTITLEMENTS_PATH = 'entitlements'; // Stores UserEntitlements, keyed by UID. Written only by the server
+export const PURCHASES_PATH_BASE = 'purchases'; // Stores PurchaseRecord: purchases/{userId}/{sessionId}. Written only by the server
+export const PURCHASE_PAYMENT_INTENTS_PATH = 'purchase_payment_intents'; // Server-only index: {paymentIntentId} -> { userId, sessionId }
+export const STRIPE_CUSTOMERS_PATH = 'stripe_customers'; // Server-only index: {stripeCustomerId} -> userId
+export const USER_CONTACTS_PATH_BASE = 'user_contacts'; // Stores UserContact objects: user_contacts/{currentUserId}/{contactUserId}
+export const PERSONAS_PATH_BASE = 'personas'; // Stores Persona objects: personas/{userId}/{personaId}
+export const PERSONA_TRASH_PATH_BASE = 'persona_trash'; // Stores TrashedPersona: persona_trash/{userId}/{personaId}
+export const AI_CHAT_MESSAGES_PATH_BASE = 'ai_chat_messages'; // Stores ChatMessage: ai_chat_messages/{userId}/{personaId}/{messageId}
+export const AI_CHAT_SUMMARIES_PATH_BASE = 'ai_chat_summaries'; // Stores ConversationSummary: ai_chat_summaries/{userId}/{personaId}
+export const PERSONA_DESCRIPTION_VERSIONS_PATH_BASE = 'persona_description_versions'; // Stores PersonaDescriptionVersion: persona_description_versions/{userId}/{personaId}/{versionId}
+export const PERSONA_INSIGHT_SNAPSHOTS_PATH_BASE = 'persona_insight_snapshots'; // Stores PersonaInsightSnapshot: persona_insight_snapshots/{userId}/{personaId}/{snapshotId}
+export const USER_CHAT_MESSAGES_PATH_BASE = 'user_chat_messages'; // Stores UserChatMessage: user_chat_messages/{chatId}/{messageId}
+export const AI_USAGE_PATH_BASE = 'ai_usage'; // AiUsagePeriod ledger, written only by the server: ai_usage/{userId}/{daily|monthly}/{periodKey}, plus AiUsageCounters at ai_usage/{userId}/counters
 
 
 // --- User Profile Management ---
@@ -40,14 +58,14 @@ export const getUserProfileById = async (userId: string): Promise<UserProfile |
   }
 };
 
-export const updateUserProfileInDB = async (userId: string, updates: Partial<UserProfile>): Promise<void> => {
+export const updateUserProfileInDB = async (userId: string, updates: UserProfileUpdates): Promise<void> => {
   if (!userId) throw new Error("User ID is required to update a profile.");
   const userRef = ref(db, `${USERS_PATH}/${userId}`);
   try {
-    const validUpdates: Partial<UserProfile> = {};
+    const validUpdates: UserProfileUpdates = {};
     for (const key in updates) {
-      if (updates[key as keyof UserProfile] !== undefined) {
-        validUpdates[key as keyof UserProfile] = updates[key as keyof UserProfile];
+      if (updates[key as keyof UserProfileUpdates] !== undefined) {
+        validUpdates[key as keyof UserProfileUpdates] = updates[key as keyof UserProfileUpdates];
       }
     }
     if (Object.keys(validUpdates).length > 0) {
@@ -59,6 +77,58 @@ export const updateUserProfileInDB = async (userId: string, updates: Partial<Use
   }
 };
 
+// The profile node is readable by every signed-in user, so the Gemini API key is kept in the owner-only secrets node.
+export const getUserSecrets = async (userId: string): Promise<UserSecrets> => {
+  if (!userId) return {};
+  const snapshot = await get(ref(db, `${USER_SECRETS_PATH}/${userId}`));
+  return (snapshot.val() as UserSecrets | null) ?? {};
+};
+
+export const saveUserGeminiApiKey = async (userId: string, geminiApiKey: string): Promise<void> => {
+  if (!userId) throw new Error("User ID is required to save an API key.");
+  try {
+    // Also drops a key left on the public profile node by earlier versions of the app.
+    await update(ref(db), {
+      [`${USER_SECRETS_PATH}/${userId}/geminiApiKey`]: geminiApiKey.trim() || null,
+      [`${USERS_PATH}/${userId}/geminiApiKey`]: null,
+    });
+  } catch (error) {
+    console.error(`Error saving Gemini API key for ${userId}:`, error);
+    throw error;
+  }
+};
+
+
+// Entitlements are read-only for the client; they change when the Stripe webhook fulfils a purchase.
+export const subscribeToUserEntitlements = (userId: string, callback: (entitlements: UserEntitlements | null) => void): (() => void) => {
+  if (!userId) {
+    callback(null);
+    return () => {};
+  }
+  const entitlementsRef = ref(db, `${ENTITLEMENTS_PATH}/${userId}`);
+  const listener = onValue(entitlementsRef, (snapshot) => {
+    callback(snapshot.exists() ? (snapshot.val() as UserEntitlements) : null);
+  }, (error) => {
+    console.error(`Error fetching entitlements for ${userId}:`, error);
+    callback(null);
+  });
+  return () => off(entitlementsRef, 'value', listener);
+};
+
+
+export const getPurchaseHistory = async (userId: string): Promise<PurchaseRecord[]> => {
+  if (!userId) return [];
+  try {
+    const snapshot = await get(ref(db, `${PURCHASES_PATH_BASE}/${userId}`));
+    if (!snapshot.exists()) return [];
+    const purchases = Object.values(snapshot.val()) as PurchaseRecord[];
+    return purchases.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  } catch (error) {
+    console.error(`Error fetching purchase history for ${userId}:`, error);
+    return [];
+  }
+};
+
 
 export const getRegisteredUserByEmailFromDB = async (email: string): Promise<UserProfile | null> => {
   const usersRef = query(ref(db, USERS_PATH), orderByChild('email'), equalTo(email.toLowerCase()));
@@ -181,6 +251,7 @@ export const getUserContacts = (currentUserId: string, callback: (contacts: User
 
 
 // --- AI Persona Management ---
+// Updates an existing persona. New personas are created server-side by createPersonaAction, which enforces the quota.
 export const savePersona = async (userId: string, personaData: Persona): Promise<void> => {
   if (!userId) throw new Error("User ID is required to save a persona.");
   const personaRef = ref(db, `${PERSONAS_PATH_BASE}/${userId}/${personaData.id}`);
@@ -232,24 +303,88 @@ export const getPersonaById = async (userId: string, personaId: string): Promise
   }
 };
 
-export const deletePersona = async (userId: string, personaId: string): Promise<void> => {
+// Moves a persona to the trash in one update. Its chats and history stay in place until it is purged, so restoring
+// it (restorePersonaAction, which re-checks the quota on the server) brings everything back.
+export const trashPersona = async (userId: string, personaId: string): Promise<void> => {
   if (!userId || !personaId) throw new Error("User ID and Persona ID are required.");
-  
-  const persona = await getPersonaById(userId, personaId); 
 
-  const personaRef = ref(db, `${PERSONAS_PATH_BASE}/${userId}/${personaId}`);
+  const persona = await getPersonaById(userId, personaId);
+  if (!persona) throw new Error("Persona not found.");
+
+  const deletedAt = new Date();
+  const trashedPersona: TrashedPersona = {
+    persona,
+    deletedAt: deletedAt.toISOString(),
+    purgeAfter: new Date(deletedAt.getTime() + PERSONA_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  };
+  try {
+    await update(ref(db), {
+      [`${PERSONAS_PATH_BASE}/${userId}/${personaId}`]: null,
+      [`${PERSONA_TRASH_PATH_BASE}/${userId}/${personaId}`]: JSON.parse(JSON.stringify(trashedPersona)),
+    });
+  } catch (error) {
+    console.error(`Error moving persona ${personaId} to the trash:`, error);
+    throw error;
+  }
+};
+
+// Trashed personas, most recently deleted first.
+export const getTrashedPersonas = (userId: string, callback: (trashedPersonas: TrashedPersona[]) => void): (() => void) => {
+  if (!userId) {
+    callback([]);
+    return () => {};
+  }
+  const trashRef = ref(db, `${PERSONA_TRASH_PATH_BASE}/${userId}`);
+  const listener = onValue(trashRef, (snapshot) => {
+    const trashedPersonas = Object.values((snapshot.val() ?? {}) as Record<string, TrashedPersona>);
+    callback(trashedPersonas.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()));
+  }, (error) => {
+    console.error("Error fetching trashed personas:", error);
+    callback([]);
+  });
+  return () => off(trashRef, 'value', listener);
+};
+
+/**
+ * Permanently deletes a trashed persona together with everything stored for it: AI chat messages (for every origin
+ * type), the conversation summary, description versions and insight snapshots. If the persona has been restored in
+ * the meantime only the stale trash entry is removed.
+ */
+export const purgePersona = async (userId: string, personaId: string): Promise<void> => {
+  if (!userId || !personaId) throw new Error("User ID and Persona ID are required.");
+  const trashEntryPath = `${PERSONA_TRASH_PATH_BASE}/${userId}/${personaId}`;
   try {
-    await remove(personaRef);
-    if (persona && persona.originType === 'user-created') {
-      const aiChatMessagesRef = ref(db, `${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}`);
-      await remove(aiChatMessagesRef);
+    if (await getPersonaById(userId, personaId)) {
+      await remove(ref(db, trashEntryPath));
+      return;
     }
+    await update(ref(db), {
+      [trashEntryPath]: null,
+      [`${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}`]: null,
+      [`${AI_CHAT_SUMMARIES_PATH_BASE}/${userId}/${personaId}`]: null,
+      [`${PERSONA_INSIGHT_SNAPSHOTS_PATH_BASE}/${userId}/${personaId}`]: null,
+      [`${PERSONA_DESCRIPTION_VERSIONS_PATH_BASE}/${userId}/${personaId}`]: null,
+    });
   } catch (error) {
-    console.error(`Error deleting persona ${personaId}:`, error);
+    console.error(`Error purging persona ${personaId}:`, error);
     throw error;
   }
 };
 
+// Purges every trashed persona whose restore window has passed. Run whenever the dashboard loads, so the trash is
+// current without waiting for the daily server purge (/api/cron/purge-trash); a failure is logged and left to it.
+export const purgeExpiredTrashedPersonas = async (userId: string): Promise<void> => {
+  if (!userId) return;
+  const expiredQuery = query(ref(db, `${PERSONA_TRASH_PATH_BASE}/${userId}`), orderByChild('purgeAfter'), endAt(new Date().toISOString()));
+  try {
+    const snapshot = await get(expiredQuery);
+    const expiredIds = Object.keys(snapshot.val() ?? {});
+    await Promise.all(expiredIds.map((personaId) => purgePersona(userId, personaId)));
+  } catch (error) {
+    console.error("Error purging expired trashed personas:", error);
+  }
+};
+
 export const getChatDerivedPersona = async (userId: string, derivedFromChatId: string, derivedRepresentingUserId: string): Promise<Persona | null> => {
   if (!userId) return null;
   const personasRefPath = `${PERSONAS_PATH_BASE}/${userId}`;
@@ -270,6 +405,19 @@ export const getChatDerivedPersona = async (userId: string, derivedFromChatId: s
   }
 };
 
+// 1-based position of a persona among the user's personas, oldest first. Used to tell whether it is soft-locked.
+export const getPersonaCreationRank = async (userId: string, persona: Persona): Promise<number> => {
+  if (!userId) return 0;
+  const personasUpToQuery = query(ref(db, `${PERSONAS_PATH_BASE}/${userId}`), orderByChild('createdAt'), endAt(persona.createdAt));
+  try {
+    const snapshot = await get(personasUpToQuery);
+    return snapshot.exists() ? Object.keys(snapshot.val()).length : 0;
+  } catch (error) {
+    console.error(`Error fetching creation rank for persona ${persona.id}:`, error);
+    return 0;
+  }
+};
+
 export const getPersonasCount = async (userId: string): Promise<number> => {
   if (!userId) return 0;
   const personasRefPath = `${PERSONAS_PATH_BASE}/${userId}`;
@@ -282,6 +430,70 @@ export const getPersonasCount = async (userId: string): Promise<number> => {
 };
 
 
+// --- Paginated chat messages (shared by AI persona chats and user-to-user chats) ---
+// Messages are ordered by timestamp, with the push key breaking ties, so (timestamp, id) is a stable cursor.
+export type MessageCursor = { id: string; timestamp: string | number };
+
+const messagesFromSnapshot = <T extends { id: string }>(snapshot: DataSnapshot): T[] => {
+  const messages: T[] = [];
+  snapshot.forEach((childSnapshot) => {
+    messages.push({ id: childSnapshot.key!, ...childSnapshot.val() } as T);
+  });
+  return messages;
+};
+
+/**
+ * Listens to the newest `pageSize` messages at `path` plus every message added after them. The window is anchored
+ * at its oldest message rather than using limitToLast, so new messages never push older ones out of it and pages
+ * loaded with getMessagesBefore join up with it without gaps. Only this window has a realtime listener.
+ */
+const subscribeToMessageWindow = <T extends { id: string; timestamp: string | number }>(
+  path: string,
+  pageSize: number,
+  callback: (messages: T[]) => void,
+  description: string
+): (() => void) => {
+  const messagesRef = ref(db, path);
+  let unsubscribe: (() => void) | null = null;
+  let isCancelled = false;
+
+  get(query(messagesRef, orderByChild('timestamp'), limitToLast(pageSize)))
+    .then((snapshot) => {
+      if (isCancelled) return;
+      const anchor = messagesFromSnapshot<T>(snapshot)[0];
+      const windowQuery = anchor
+        ? query(messagesRef, orderByChild('timestamp'), startAt(anchor.timestamp, anchor.id))
+        : query(messagesRef, orderByChild('timestamp'));
+      const listener = onValue(windowQuery, (windowSnapshot) => {
+        callback(messagesFromSnapshot<T>(windowSnapshot));
+      }, (error) => {
+        console.error(`Error fetching ${description}:`, error);
+        callback([]);
+      });
+      unsubscribe = () => off(windowQuery, 'value', listener);
+    })
+    .catch((error) => {
+      console.error(`Error fetching ${description}:`, error);
+      callback([]);
+    });
+
+  return () => {
+    isCancelled = true;
+    unsubscribe?.();
+  };
+};
+
+const getMessagesBefore = async <T extends { id: string }>(path: string, before: MessageCursor, pageSize: number): Promise<T[]> => {
+  const olderQuery = query(ref(db, path), orderByChild('timestamp'), endBefore(before.timestamp, before.id), limitToLast(pageSize));
+  try {
+    return messagesFromSnapshot<T>(await get(olderQuery));
+  } catch (error) {
+    console.error(`Error fetching older messages at ${path}:`, error);
+    throw error;
+  }
+};
+
+
 // --- AI Persona Chat Message Management (for ChatInterface.tsx) ---
 export const saveChatMessage = async (userId: string, personaId: string, message: Omit<ChatMessage, 'id' | 'timestamp'>): Promise<string> => {
   if (!userId || !personaId) throw new Error("User ID and Persona ID are required.");
@@ -296,38 +508,56 @@ export const saveChatMessage = async (userId: string, personaId: string, message
   }
 };
 
+// Edits a single message in place. The running conversation summary is not rewritten, so edits to turns it already
+// covers only reach the model through the recent history.
+export const updateChatMessage = async (
+  userId: string,
+  personaId: string,
+  messageId: string,
+  changes: Partial<Omit<ChatMessage, 'id' | 'timestamp' | 'sender'>>
+): Promise<void> => {
+  if (!userId || !personaId || !messageId) throw new Error("User ID, Persona ID and Message ID are required.");
+  try {
+    await update(ref(db, `${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}/${messageId}`), changes);
+  } catch (error) {
+    console.error("Error updating AI chat message:", error);
+    throw error;
+  }
+};
+
+export const deleteChatMessage = async (userId: string, personaId: string, messageId: string): Promise<void> => {
+  if (!userId || !personaId || !messageId) throw new Error("User ID, Persona ID and Message ID are required.");
+  try {
+    await remove(ref(db, `${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}/${messageId}`));
+  } catch (error) {
+    console.error("Error deleting AI chat message:", error);
+    throw error;
+  }
+};
+
+// Listens to the newest page of the chat and everything sent after it, oldest first; see subscribeToMessageWindow.
 export const getChatMessages = (
-  userId: string, 
-  personaId: string, 
-  callback: (messages: ChatMessage[]) => void, 
-  limit: number | null = 50 
+  userId: string,
+  personaId: string,
+  callback: (messages: ChatMessage[]) => void,
+  pageSize: number = CHAT_MESSAGES_PAGE_SIZE
 ): (() => void) => {
   if (!userId || !personaId) {
     callback([]);
     return () => {};
   }
-  
-  let messagesQuery;
-  const path = `${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}`;
-  if (limit === null) {
-    messagesQuery = query(ref(db, path), orderByChild('timestamp'));
-  } else {
-    messagesQuery = query(ref(db, path), orderByChild('timestamp'), limitToLast(limit));
-  }
-  
-  const listener = onValue(messagesQuery, (snapshot) => {
-    const messagesData = snapshot.val();
-    if (messagesData) {
-      const messagesList = Object.entries(messagesData).map(([id, data]) => ({ id, ...(data as Omit<ChatMessage, 'id'>) }));
-      callback(messagesList);
-    } else {
-      callback([]);
-    }
-  }, (error) => {
-    console.error("Error fetching AI chat messages:", error);
-    callback([]);
-  });
-  return () => off(messagesQuery, 'value', listener);
+  return subscribeToMessageWindow(`${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}`, pageSize, callback, "AI chat messages");
+};
+
+// The page of messages just before `before` (the oldest one loaded so far), oldest first.
+export const getOlderChatMessages = async (
+  userId: string,
+  personaId: string,
+  before: MessageCursor,
+  pageSize: number = CHAT_MESSAGES_PAGE_SIZE
+): Promise<ChatMessage[]> => {
+  if (!userId || !personaId) return [];
+  return getMessagesBefore(`${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}`, before, pageSize);
 };
 
 export const getAllChatMessagesForPersona = async (userId: string, personaId: string): Promise<ChatMessage[]> => {
@@ -349,12 +579,186 @@ export const getAllChatMessagesForPersona = async (userId: string, personaId: st
   }
 };
 
+// Messages newer than the given timestamp, oldest first. Used to find turns not yet folded into the conversation summary.
+export const getChatMessagesAfter = async (userId: string, personaId: string, afterTimestamp: number): Promise<ChatMessage[]> => {
+  if (!userId || !personaId) return [];
+
+  const messagesRef = ref(db, `${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}`);
+  const messagesQuery = query(messagesRef, orderByChild('timestamp'), startAfter(afterTimestamp));
+
+  try {
+    const snapshot = await get(messagesQuery);
+    const messages: ChatMessage[] = [];
+    // forEach preserves the query ordering, unlike Object.entries on snapshot.val().
+    snapshot.forEach((child) => {
+      messages.push({ id: child.key!, ...(child.val() as Omit<ChatMessage, 'id'>) });
+    });
+    return messages;
+  } catch (error) {
+    console.error("Error fetching AI chat messages after timestamp:", error);
+    return [];
+  }
+};
+
+
+// --- Persona Description History (one version per description or profile change) ---
+export const getPersonaDescriptionVersions = async (userId: string, personaId: string): Promise<PersonaDescriptionVersion[]> => {
+  if (!userId || !personaId) return [];
+  const versionsQuery = query(ref(db, `${PERSONA_DESCRIPTION_VERSIONS_PATH_BASE}/${userId}/${personaId}`), orderByChild('createdAt'));
+  try {
+    const snapshot = await get(versionsQuery);
+    const versions: PersonaDescriptionVersion[] = [];
+    snapshot.forEach((childSnapshot) => {
+      versions.push({ id: childSnapshot.key!, ...childSnapshot.val() });
+    });
+    return versions; // Oldest first
+  } catch (error) {
+    console.error(`Error fetching description versions for persona ${personaId}:`, error);
+    return [];
+  }
+};
+
+const pushPersonaDescriptionVersion = async (
+  userId: string,
+  personaId: string,
+  version: Omit<PersonaDescriptionVersion, 'id'>
+): Promise<PersonaDescriptionVersion> => {
+  const versionRef = push(ref(db, `${PERSONA_DESCRIPTION_VERSIONS_PATH_BASE}/${userId}/${personaId}`));
+  await set(versionRef, JSON.parse(JSON.stringify(version)));
+  return { id: versionRef.key!, ...version };
+};
+
+/**
+ * Saves a persona and, when its description or profile changed, records both as a version.
+ * Personas created before versioning get their previous state recorded first as the 'creation' version,
+ * so the original can always be restored. Returns the versions that were added, oldest first.
+ */
+export const savePersonaWithDescriptionVersion = async (
+  userId: string,
+  personaData: Persona,
+  previous: Pick<Persona, 'personaDescription' | 'profile'>,
+  change: Pick<PersonaDescriptionVersion, 'author' | 'prompt' | 'revertedFromVersionId'>
+): Promise<PersonaDescriptionVersion[]> => {
+  await savePersona(userId, personaData);
+  const description = personaData.personaDescription;
+  const previousDescription = previous.personaDescription;
+  if (!description) return [];
+  if (description === previousDescription && isSamePersonaProfile(personaData.profile, previous.profile)) return [];
+
+  const added: PersonaDescriptionVersion[] = [];
+  try {
+    const existing = await get(query(ref(db, `${PERSONA_DESCRIPTION_VERSIONS_PATH_BASE}/${userId}/${personaData.id}`), limitToLast(1)));
+    if (!existing.exists() && previousDescription) {
+      added.push(await pushPersonaDescriptionVersion(userId, personaData.id, {
+        createdAt: personaData.createdAt,
+        description: previousDescription,
+        profile: cleanPersonaProfile(previous.profile),
+        author: 'creation',
+      }));
+    }
+    added.push(await pushPersonaDescriptionVersion(userId, personaData.id, {
+      ...change,
+      createdAt: new Date().toISOString(),
+      description,
+      profile: cleanPersonaProfile(personaData.profile),
+    }));
+  } catch (error) {
+    // The persona itself is saved; only its history is incomplete.
+    console.error(`Error recording description version for persona ${personaData.id}:`, error);
+  }
+  return added;
+};
+
+
+// --- Persona Insight History (one snapshot per analysis run) ---
+export const savePersonaInsightSnapshot = async (
+  userId: string,
+  personaId: string,
+  insights: PersonaInsightSnapshot['insights']
+): Promise<PersonaInsightSnapshot> => {
+  if (!userId || !personaId) throw new Error("User ID and Persona ID are required.");
+  const snapshotRef = push(ref(db, `${PERSONA_INSIGHT_SNAPSHOTS_PATH_BASE}/${userId}/${personaId}`));
+  const snapshot: Omit<PersonaInsightSnapshot, 'id'> = { createdAt: new Date().toISOString(), insights };
+  try {
+    await set(snapshotRef, JSON.parse(JSON.stringify(snapshot)));
+    return { id: snapshotRef.key!, ...snapshot };
+  } catch (error) {
+    console.error(`Error saving insight snapshot for persona ${personaId}:`, error);
+    throw error;
+  }
+};
+
+export const getPersonaInsightSnapshots = async (userId: string, personaId: string): Promise<PersonaInsightSnapshot[]> => {
+  if (!userId || !personaId) return [];
+  const snapshotsQuery = query(ref(db, `${PERSONA_INSIGHT_SNAPSHOTS_PATH_BASE}/${userId}/${personaId}`), orderByChild('createdAt'));
+  try {
+    const snapshot = await get(snapshotsQuery);
+    const snapshots: PersonaInsightSnapshot[] = [];
+    snapshot.forEach((childSnapshot) => {
+      snapshots.push({ id: childSnapshot.key!, ...childSnapshot.val() });
+    });
+    return snapshots; // Oldest first
+  } catch (error) {
+    console.error(`Error fetching insight snapshots for persona ${personaId}:`, error);
+    return [];
+  }
+};
+
+
+// --- AI Persona Chat Memory (running conversation summary) ---
+export const getChatSummary = async (userId: string, personaId: string): Promise<ConversationSummary | null> => {
+  if (!userId || !personaId) return null;
+  const summaryRef = ref(db, `${AI_CHAT_SUMMARIES_PATH_BASE}/${userId}/${personaId}`);
+  try {
+    const snapshot = await get(summaryRef);
+    return snapshot.exists() ? (snapshot.val() as ConversationSummary) : null;
+  } catch (error) {
+    console.error(`Error fetching chat summary for persona ${personaId}:`, error);
+    return null;
+  }
+};
+
+export const saveChatSummary = async (userId: string, personaId: string, summary: ConversationSummary): Promise<void> => {
+  if (!userId || !personaId) throw new Error("User ID and Persona ID are required.");
+  const summaryRef = ref(db, `${AI_CHAT_SUMMARIES_PATH_BASE}/${userId}/${personaId}`);
+  try {
+    await set(summaryRef, summary);
+  } catch (error) {
+    console.error(`Error saving chat summary for persona ${personaId}:`, error);
+    throw error;
+  }
+};
+
+
+// --- AI Usage (read-only on the client; the server records every AI call) ---
+export const getAiUsage = async (userId: string): Promise<AiUsageSnapshot | null> => {
+  if (!userId) return null;
+  const { day, month } = getAiUsagePeriodKeys();
+  try {
+    const [dailySnapshot, monthlySnapshot] = await Promise.all([
+      get(ref(db, `${AI_USAGE_PATH_BASE}/${userId}/daily/${day}`)),
+      get(ref(db, `${AI_USAGE_PATH_BASE}/${userId}/monthly/${month}`)),
+    ]);
+    return {
+      day,
+      month,
+      daily: dailySnapshot.exists() ? (dailySnapshot.val() as AiUsagePeriod) : null,
+      monthly: monthlySnapshot.exists() ? (monthlySnapshot.val() as AiUsagePeriod) : null,
+    };
+  } catch (error) {
+    console.error(`Error fetching AI usage for ${userId}:`, error);
+    return null;
+  }
+};
+
 
 export const clearChatMessages = async (userId: string, personaId: string): Promise<void> => {
   if (!userId || !personaId) return;
   const messagesRef = ref(db, `${AI_CHAT_MESSAGES_PATH_BASE}/${userId}/${personaId}`);
   try {
     await remove(messagesRef);
+    // The running summary describes the cleared messages, so it goes too.
+    await remove(ref(db, `${AI_CHAT_SUMMARIES_PATH_BASE}/${userId}/${personaId}`));
   } catch (error) {
     console.error("Error clearing AI chat messages:", error);
     throw error;
@@ -384,26 +788,44 @@ export const saveUserChatMessage = async (chatId: string, message: Omit<UserChat
   }
 };
 
-export const getUserChatMessages = (chatId: string, callback: (messages: UserChatMessage[]) => void, limit: number = 50): (() => void) => {
+// Listens to the newest page of the thread and everything sent after it, oldest first; see subscribeToMessageWindow.
+export const getUserChatMessages = (
+  chatId: string,
+  callback: (messages: UserChatMessage[]) => void,
+  pageSize: number = CHAT_MESSAGES_PAGE_SIZE
+): (() => void) => {
   if (!chatId) {
     callback([]);
     return () => {};
   }
-  const messagesQuery = query(ref(db, `${USER_CHAT_MESSAGES_PATH_BASE}/${chatId}`), orderByChild('timestamp'), limitToLast(limit));
-  
-  const listener = onValue(messagesQuery, (snapshot) => {
-    const messagesData = snapshot.val();
-    if (messagesData) {
-      const messagesList = Object.entries(messagesData).map(([id, data]) => ({ id, ...(data as Omit<UserChatMessage, 'id'>) }));
-      callback(messagesList);
-    } else {
-      callback([]);
-    }
-  }, (error) => {
-    console.error("Error fetching user chat messages:", error);
-    callback([]);
-  });
-  return () => off(messagesQuery, 'value', listener);
+  return subscribeToMessageWindow(`${USER_CHAT_MESSAGES_PATH_BASE}/${chatId}`, pageSize, callback, "user chat messages");
+};
+
+// The page of messages just before `before` (the oldest one loaded so far), oldest first.
+export const getOlderUserChatMessages = async (
+  chatId: string,
+  before: MessageCursor,
+  pageSize: number = CHAT_MESSAGES_PAGE_SIZE
+): Promise<UserChatMessage[]> => {
+  if (!chatId) return [];
+  return getMessagesBefore(`${USER_CHAT_MESSAGES_PATH_BASE}/${chatId}`, before, pageSize);
+};
+
+// The whole thread, oldest first. Used to analyze chat-derived personas.
+export const getAllUserChatMessages = async (chatId: string): Promise<UserChatMessage[]> => {
+  if (!chatId) return [];
+  const messagesQuery = query(ref(db, `${USER_CHAT_MESSAGES_PATH_BASE}/${chatId}`), orderByChild('timestamp'));
+  try {
+    const snapshot = await get(messagesQuery);
+    const messages: UserChatMessage[] = [];
+    snapshot.forEach((childSnapshot) => {
+      messages.push({ id: childSnapshot.key!, ...childSnapshot.val() });
+    });
+    return messages;
+  } catch (error) {
+    console.error("Error fetching all user chat messages:", error);
+    return [];
+  }
 };
 
 export const clearUserChatMessages = async (chatId: string): Promise<void> => {
@@ -5,6 +5,8 @@ import Stripe from 'stripe';
 const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
 const stripePublishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY;
 const nodeEnv = process.env.NODE_ENV;
+// Points the SDK at the local Stripe stand-in (`npm run stripe:local`) instead of api.stripe.com. Ignored in production.
+const localStripeApiUrl = process.env.STRIPE_LOCAL_API_URL;
 
 console.log(`[Stripe Init] Attempting to initialize Stripe...`);
 console.log(`[Stripe Init] NODE_ENV: ${nodeEnv}`);
@@ -13,10 +15,10 @@ if (stripeSecretKey) {
     if (stripeSecretKey.startsWith('sk_test_') || stripeSecretKey.startsWith('sk_live_')) {
         console.log(`[Stripe Init] STRIPE_SECRET_KEY found via process.env and appears structurally valid (actual key hidden for security).`);
     } else {
-        console.warn(`[Stripe Init] STRIPE_SECRET_KEY found via process.env but seems invalid (length: ${stripeSecretKey.length}, does not start with sk_test_ or sk_live_). Server-side payments will likely fail or simulate.`);
+        console.warn(`[Stripe Init] STRIPE_SECRET_KEY found via process.env but seems invalid (length: ${stripeSecretKey.length}, does not start with sk_test_ or sk_live_). Server-side payments will fail.`);
     }
 } else {
-    console.warn(`[Stripe Init] STRIPE_SECRET_KEY is NOT FOUND in process.env. Server-side payments will use simulation or fail.`);
+    console.warn(`[Stripe Init] STRIPE_SECRET_KEY is NOT FOUND in process.env. Checkout is unavailable unless STRIPE_LOCAL_API_URL points at the local Stripe stand-in.`);
 }
 
 if (stripePublishableKey) {
@@ -33,14 +35,29 @@ if (stripePublishableKey) {
 let stripeInstance: Stripe | null = null;
 let stripeServerEnabled = false;
 
-if (nodeEnv === 'production') {
+if (nodeEnv === 'production' && localStripeApiUrl) {
+    console.error('[Stripe Init] STRIPE_LOCAL_API_URL is set in PRODUCTION and will be ignored. The local Stripe stand-in is for development and tests only.');
+}
+
+if (nodeEnv !== 'production' && localStripeApiUrl) {
+    const localApiUrl = new URL(localStripeApiUrl);
+    stripeInstance = new Stripe(stripeSecretKey || 'sk_test_local', {
+        apiVersion: '2024-06-20',
+        typescript: true,
+        host: localApiUrl.hostname,
+        port: localApiUrl.port || (localApiUrl.protocol === 'https:' ? 443 : 80),
+        protocol: localApiUrl.protocol === 'https:' ? 'https' : 'http',
+    });
+    stripeServerEnabled = true;
+    console.log(`[Stripe Init] Stripe SERVER-SIDE initialized against the LOCAL Stripe stand-in at ${localStripeApiUrl}. No real payments are made.`);
+} else if (nodeEnv === 'production') {
     if (!stripeSecretKey || !(stripeSecretKey.startsWith('sk_test_') || stripeSecretKey.startsWith('sk_live_'))) {
         // In production, if the secret key is missing or invalid from process.env, this is a critical issue.
         console.error(
             'CRITICAL PRODUCTION ERROR: STRIPE_SECRET_KEY is missing from process.env or is invalid. It must start with "sk_test_" or "sk_live_". Real Stripe functionality will NOT work. Ensure this variable is set in your production hosting environment.'
         );
         // We don't throw an error here to allow the app to potentially start and show diagnostics,
-        // but real payment operations will fail or simulate based on subsequent checks.
+        // but checkout will be unavailable.
         stripeServerEnabled = false;
     } else {
         // Key is present in process.env and seems structurally valid for production.
@@ -61,7 +78,7 @@ if (nodeEnv === 'production') {
 } else { // Development or other non-production environments
     if (!stripeSecretKey || !(stripeSecretKey.startsWith('sk_test_') || stripeSecretKey.startsWith('sk_live_'))) {
         console.warn(
-            '[Stripe Init] STRIPE_SECRET_KEY (from process.env) is not set or is invalid for DEVELOPMENT/OTHER. Server-side Stripe operations will use SIMULATION or fail if attempted directly.'
+            '[Stripe Init] STRIPE_SECRET_KEY (from process.env) is not set or is invalid for DEVELOPMENT/OTHER. Checkout is unavailable; run `npm run stripe:local` and set STRIPE_LOCAL_API_URL to test payments locally.'
         );
         stripeServerEnabled = false;
         stripeInstance = null;
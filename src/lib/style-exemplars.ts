@@ -0,0 +1,73 @@
+// src/lib/style-exemplars.ts
+// Style exemplars: real messages the persona's source wrote, stored with the persona and sent with replies so the
+// model imitates the actual voice rather than only the prose description. Selection is lexical (TF-IDF overlap with
+// the user's message), so it runs locally with no embedding calls.
+import type { Persona } from './types';
+import { extractMeasuredMessages, isContentWord, tokenize } from './text-stats';
+import { STYLE_EXEMPLAR_LIMIT, STYLE_EXEMPLAR_MAX_CHARS, STYLE_EXEMPLARS_PER_REPLY } from './constants';
+
+const MIN_EXEMPLAR_WORDS = 2;
+
+// Picks `count` items spread evenly over the list, so exemplars cover the whole history rather than one stretch of it.
+const spreadEvenly = <T>(items: T[], count: number): T[] => {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) => items[Math.floor((i * items.length) / count)]);
+};
+
+/**
+ * Chooses up to STYLE_EXEMPLAR_LIMIT exemplars from the persona's messages, oldest first. Very short, overlong and
+ * repeated messages are skipped.
+ */
+export const extractStyleExemplars = (messages: string[]): string[] => {
+  const seen = new Set<string>();
+  const candidates = messages
+    .map((message) => message.trim())
+    .filter((message) => {
+      const key = message.toLowerCase();
+      if (!message || message.length > STYLE_EXEMPLAR_MAX_CHARS || seen.has(key)) return false;
+      seen.add(key);
+      return tokenize(message).length >= MIN_EXEMPLAR_WORDS;
+    });
+  return spreadEvenly(candidates, STYLE_EXEMPLAR_LIMIT);
+};
+
+/** Exemplars from a seed history, using only the seed speaker's lines when the history was imported from a chat export. */
+export const extractSeedStyleExemplars = (chatHistory: string, seedSpeaker?: string): string[] =>
+  extractStyleExemplars(extractMeasuredMessages({ chatHistory, targetSpeaker: seedSpeaker }));
+
+/** The persona's stored exemplars; personas created before exemplars were stored fall back to their seed history. */
+export const getPersonaStyleExemplars = (persona: Persona): string[] => {
+  if (persona.styleExemplars) return persona.styleExemplars;
+  return persona.chatHistory ? extractSeedStyleExemplars(persona.chatHistory, persona.seedSpeaker) : [];
+};
+
+/**
+ * Ranks exemplars by the IDF-weighted content words they share with `query` (normalised by exemplar length) and
+ * returns the best `count`. When fewer than `count` share any words, the rest are spread over the remaining
+ * exemplars, so the model always sees some of the persona's messages.
+ */
+export const selectStyleExemplars = (exemplars: string[], query: string, count = STYLE_EXEMPLARS_PER_REPLY): string[] => {
+  if (exemplars.length <= count) return exemplars;
+
+  const exemplarWords = exemplars.map((exemplar) => new Set(tokenize(exemplar).filter(isContentWord)));
+  const documentFrequency = new Map<string, number>();
+  exemplarWords.forEach((words) => words.forEach((word) => documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1)));
+  const queryWords = new Set(tokenize(query).filter(isContentWord));
+
+  const ranked = exemplarWords
+    .map((words, index) => {
+      let score = 0;
+      queryWords.forEach((word) => {
+        if (words.has(word)) score += Math.log(1 + exemplars.length / (documentFrequency.get(word) ?? 1));
+      });
+      return { index, score: words.size > 0 ? score / Math.sqrt(words.size) : 0 };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .map(({ index }) => index);
+
+  const chosen = new Set(ranked);
+  const fillers = spreadEvenly(exemplars.map((_, index) => index).filter((index) => !chosen.has(index)), count - ranked.length);
+  return [...ranked, ...fillers].map((index) => exemplars[index]);
+};
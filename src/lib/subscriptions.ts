@@ -0,0 +1,44 @@
+// src/lib/subscriptions.ts
+// Mirrors Stripe subscriptions into entitlements/{uid}/subscription. Server-only.
+//
+// Subscription events can arrive out of order, so the subscription is re-read from Stripe and its current state is
+// stored rather than whatever the event carried. Replaying any event therefore converges on the same entitlement.
+import type Stripe from 'stripe';
+import { stripe } from './stripe';
+import { getUserIdForStripeCustomer, linkStripeCustomer, setSubscriptionEntitlement, type EntitlementSource } from './entitlements';
+
+export interface SubscriptionSyncResult {
+  userId: string;
+  status: string;
+}
+
+const customerIdOf = (subscription: Stripe.Subscription): string =>
+  typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+
+/**
+ * Stores the current state of a Stripe subscription on its user's entitlements. The user is taken from the
+ * subscription's metadata (set at checkout), then from the customer index. Returns null when no user is found.
+ */
+export const syncSubscriptionEntitlement = async (
+  subscriptionOrId: Stripe.Subscription | string,
+  source: EntitlementSource,
+  userIdHint?: string
+): Promise<SubscriptionSyncResult | null> => {
+  if (!stripe) throw new Error('Stripe is not configured on the server.');
+  const subscriptionId = typeof subscriptionOrId === 'string' ? subscriptionOrId : subscriptionOrId.id;
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const customerId = customerIdOf(subscription);
+
+  const userId = subscription.metadata?.userId || userIdHint || (await getUserIdForStripeCustomer(customerId));
+  if (!userId) return null;
+
+  await linkStripeCustomer(userId, customerId);
+  await setSubscriptionEntitlement(userId, {
+    plan: 'pro',
+    subscriptionId: subscription.id,
+    status: subscription.status,
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000).toISOString(),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+  }, source);
+  return { userId, status: subscription.status };
+};
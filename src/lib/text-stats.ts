@@ -0,0 +1,198 @@
+// src/lib/text-stats.ts
+// Deterministic text statistics for persona insights. Everything countable (message lengths, question and emoji
+// rates, keywords, word and sentence counts, frequent phrases, message counts and dates) is computed here from the
+// chat history, so the numbers are reproducible; the LLM only supplies the summary, sentiment and MBTI traits.
+import type { AnalyzePersonaInsightsOutput } from '@/ai/flows/analyze-persona-insights';
+
+export interface TextStatsInput {
+  chatHistory: string;
+  targetSpeaker?: string; // Only this speaker's "Name: message" lines are measured; other lines are context
+  analysisContext?: 'seed-data' | 'ai-interaction-log';
+  messageDates?: string[]; // ISO timestamps from the history, when the source has them; only the earliest and latest are used
+}
+
+export type TextStats = Pick<
+  AnalyzePersonaInsightsOutput,
+  'communicationStyle' | 'topKeywords' | 'linguisticFeatures' | 'interactionStats'
+>;
+
+// In "ai-interaction-log" histories, lines from the app user are written as "User: message"; every other speaker
+// is the persona (or, for chat-derived personas, the contact it represents).
+export const CONVERSATION_USER_SPEAKER = 'User';
+
+interface ParsedMessage {
+  speaker?: string;
+  text: string;
+}
+
+const MAX_KEYWORDS = 10;
+const MAX_FREQUENT_PHRASES = 5;
+const PHRASE_MIN_WORDS = 2;
+const PHRASE_MAX_WORDS = 4;
+
+// Built with RegExp so the Unicode property escapes survive the ES2017 compile target.
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+(?:['’][\\p{L}\\p{N}]+)*", 'gu');
+const EMOJI_PATTERN = new RegExp('\\p{Extended_Pictographic}', 'u');
+const SPEAKER_LINE = /^([^:\n]{1,80}):\s(.*)$/;
+const SENTENCE_BREAK = /[.!?]+|\n/;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because', 'been',
+  'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'don\'t', 'for', 'from', 'get', 'got',
+  'had', 'has', 'have', 'he', 'her', 'here', 'him', 'his', 'how', 'i', 'i\'m', 'if', 'in', 'into', 'is', 'it', 'it\'s',
+  'its', 'just', 'me', 'more', 'my', 'no', 'not', 'now', 'of', 'oh', 'ok', 'on', 'one', 'or', 'our', 'out', 'so',
+  'some', 'than', 'that', 'that\'s', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'too',
+  'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would',
+  'yeah', 'yes', 'you', 'your', 'you\'re',
+]);
+
+const roundTo1 = (value: number): number => Math.round(value * 10) / 10;
+const percentage = (count: number, total: number): number => (total > 0 ? roundTo1((count / total) * 100) : 0);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(WORD_PATTERN) ?? []).map((word) => word.replace(/’/g, '\''));
+
+export const isContentWord = (word: string): boolean => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word);
+
+/**
+ * Splits a history into messages. Plain seed text counts one message per non-empty line. Histories with speakers
+ * ("Name: message" lines, as built for chat exports and conversation logs) count one message per speaker line;
+ * unprefixed lines continue the previous message and "..." marks a gap between excerpts.
+ */
+const parseMessages = ({ chatHistory, targetSpeaker, analysisContext }: TextStatsInput): ParsedMessage[] => {
+  const lines = chatHistory.split(/\r?\n/);
+  if (!targetSpeaker && analysisContext !== 'ai-interaction-log') {
+    return lines.map((line) => line.trim()).filter((line) => line && line !== '...').map((text) => ({ text }));
+  }
+
+  const messages: ParsedMessage[] = [];
+  let current: ParsedMessage | null = null;
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed === '...') {
+      current = null;
+      continue;
+    }
+    const speakerLine = targetSpeaker && line.startsWith(`${targetSpeaker}: `)
+      ? [line, targetSpeaker, line.slice(targetSpeaker.length + 2)]
+      : SPEAKER_LINE.exec(line);
+    if (speakerLine) {
+      current = { speaker: speakerLine[1].trim(), text: speakerLine[2] };
+      messages.push(current);
+    } else if (current && trimmed) {
+      current.text += `\n${line}`;
+    } else if (trimmed && !targetSpeaker) {
+      current = { text: line };
+      messages.push(current);
+    }
+  }
+  return messages;
+};
+
+/** The texts of the messages computeTextStats measures: every message, or only targetSpeaker's. */
+export const extractMeasuredMessages = (input: TextStatsInput): string[] =>
+  parseMessages(input)
+    .filter((message) => !input.targetSpeaker || message.speaker === input.targetSpeaker)
+    .map((message) => message.text);
+
+const isUserMessage = (message: ParsedMessage): boolean => message.speaker === CONVERSATION_USER_SPEAKER;
+
+const countSentences = (text: string): number => text.split(SENTENCE_BREAK).filter((sentence) => tokenize(sentence).length > 0).length;
+
+const topKeywords = (words: string[]): TextStats['topKeywords'] => {
+  const counts = new Map<string, number>();
+  words.filter(isContentWord).forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, MAX_KEYWORDS)
+    .map(([keyword, frequency]) => ({ keyword, frequency }));
+};
+
+/** Word sequences of 2-4 words that recur within sentences, longest and most frequent first, without overlaps. */
+const frequentPhrases = (texts: string[]): string[] => {
+  const counts = new Map<string, number>();
+  texts.forEach((text) => {
+    text.split(SENTENCE_BREAK).forEach((sentence) => {
+      const words = tokenize(sentence);
+      for (let size = PHRASE_MIN_WORDS; size <= PHRASE_MAX_WORDS; size++) {
+        for (let start = 0; start + size <= words.length; start++) {
+          const phraseWords = words.slice(start, start + size);
+          if (STOPWORDS.has(phraseWords[0]) || STOPWORDS.has(phraseWords[size - 1])) continue;
+          const phrase = phraseWords.join(' ');
+          counts.set(phrase, (counts.get(phrase) ?? 0) + 1);
+        }
+      }
+    });
+  });
+
+  const candidates = [...counts.entries()]
+    .filter(([, count]) => count >= 2)
+    .sort(([a, countA], [b, countB]) => countB - countA || b.split(' ').length - a.split(' ').length || a.localeCompare(b));
+  const chosen: string[] = [];
+  for (const [phrase] of candidates) {
+    if (chosen.length >= MAX_FREQUENT_PHRASES) break;
+    const padded = ` ${phrase} `;
+    if (chosen.some((existing) => ` ${existing} `.includes(padded) || padded.includes(` ${existing} `))) continue;
+    chosen.push(phrase);
+  }
+  return chosen;
+};
+
+const dateRange = (dates: string[] | undefined): { first: string; last: string; days: number } | undefined => {
+  const times = (dates ?? []).map((date) => Date.parse(date)).filter((time) => !Number.isNaN(time));
+  if (times.length === 0) return undefined;
+  // Reduced rather than spread into Math.min/max, which overflows the call stack for very long histories.
+  const first = times.reduce((min, time) => Math.min(min, time));
+  const last = times.reduce((max, time) => Math.max(max, time));
+  return {
+    first: new Date(first).toISOString(),
+    last: new Date(last).toISOString(),
+    days: Math.max(1, Math.ceil((last - first) / (24 * 60 * 60 * 1000))),
+  };
+};
+
+/** Computes every countable insight metric from the history. Values are rounded to one decimal. */
+export const computeTextStats = (input: TextStatsInput): TextStats => {
+  const allMessages = parseMessages(input);
+  const measured = input.targetSpeaker
+    ? allMessages.filter((message) => message.speaker === input.targetSpeaker)
+    : allMessages;
+
+  const wordsPerMessage = measured.map((message) => tokenize(message.text));
+  const words = wordsPerMessage.flat();
+  const sentenceCount = measured.reduce((sum, message) => sum + countSentences(message.text), 0);
+  const phrases = frequentPhrases(measured.map((message) => message.text));
+
+  const stats: TextStats = {
+    communicationStyle: {
+      averageMessageLength: measured.length > 0 ? roundTo1(words.length / measured.length) : 0,
+      questionRate: percentage(measured.filter((message) => message.text.includes('?')).length, measured.length),
+      useOfEmojis: percentage(measured.filter((message) => EMOJI_PATTERN.test(message.text)).length, measured.length),
+    },
+    topKeywords: topKeywords(words),
+    linguisticFeatures: {
+      wordCount: words.length,
+      uniqueWordCount: new Set(words).size,
+      averageSentenceLength: sentenceCount > 0 ? roundTo1(words.length / sentenceCount) : 0,
+      ...(phrases.length > 0 ? { frequentPhrases: phrases } : {}),
+    },
+  };
+
+  const range = dateRange(input.messageDates);
+  if (input.analysisContext === 'ai-interaction-log') {
+    const userMessagesCount = allMessages.filter(isUserMessage).length;
+    stats.interactionStats = {
+      totalMessages: allMessages.length,
+      userMessagesCount,
+      aiMessagesCount: allMessages.length - userMessagesCount,
+    };
+  } else if (range) {
+    stats.interactionStats = { totalMessages: measured.length };
+  }
+  if (stats.interactionStats && range) {
+    stats.interactionStats.firstMessageDate = range.first;
+    stats.interactionStats.lastMessageDate = range.last;
+    stats.interactionStats.averageMessagesPerDay = roundTo1((stats.interactionStats.totalMessages ?? 0) / range.days);
+  }
+  return stats;
+};
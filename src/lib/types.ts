@@ -7,16 +7,75 @@ export interface UserProfile {
   avatarUrl?: string;
   lastLogin?: string; // ISO date string
   createdAt: string; // ISO date string
-  geminiApiKey?: string; // User's own Gemini API key
-  personaQuota?: number; // Number of personas user is allowed to create
+  geminiApiKey?: string; // User's own Gemini API key. Stored in user_secrets/{uid}, never here; kept on the in-memory profile for convenience
+  personaQuota?: number; // Number of personas user is allowed to create. Read from entitlements/{uid}, never stored here
+}
+
+export type UserProfileUpdates = Partial<Pick<UserProfile, 'email' | 'name' | 'avatarUrl' | 'lastLogin'>>;
+
+export interface UserSecrets { // user_secrets/{uid}: readable and writable only by its owner (and the server)
+  geminiApiKey?: string;
+}
+
+export interface UserEntitlements { // entitlements/{uid}: written only by the server
+  personaQuota: number;
+  creditedPurchases?: Record<string, number>; // Purchase (Checkout Session) id -> slots granted, so a purchase is credited once
+  revokedPurchases?: Record<string, number>; // Purchase id -> slots taken back after a refund or dispute
+  lastRevocation?: PurchaseRevocation;
+  stripeCustomerId?: string; // Set once the user has checked out with Stripe; used for the Customer Portal
+  subscription?: SubscriptionEntitlement;
+  updatedAt: string; // ISO date string
+  updatedBy: 'stripe-webhook' | 'admin';
+}
+
+export interface SubscriptionEntitlement { // Mirrors the user's Stripe subscription, kept current by customer.subscription.* events
+  plan: 'pro';
+  subscriptionId: string;
+  status: string; // Stripe subscription status, e.g. 'active', 'past_due', 'canceled'
+  currentPeriodEnd: string; // ISO date string
+  cancelAtPeriodEnd: boolean;
+  updatedAt: string; // ISO date string
+}
+
+export type CheckoutProduct = 'persona-slot' | 'pro-subscription';
+
+// Where a Checkout Session stands from the user's point of view, as reported to /payment/success.
+export type CheckoutSessionState =
+  | 'fulfilled' // Paid and credited by the webhook
+  | 'awaiting-fulfillment' // Paid, but the webhook has not credited it yet
+  | 'payment-pending' // Completed with a delayed payment method that has not cleared
+  | 'failed'; // Expired, abandoned or the payment failed
+
+export type PurchaseRevocationReason = 'refunded' | 'disputed';
+
+export interface PurchaseRevocation {
+  purchaseId: string;
+  reason: PurchaseRevocationReason;
+  units: number;
+  revokedAt: string; // ISO date string
+}
+
+export type PurchaseStatus = 'pending' | 'fulfilled' | PurchaseRevocationReason;
+
+export interface PurchaseRecord { // purchases/{userId}/{sessionId}: written only by the server
+  sessionId: string; // Stripe Checkout Session id
+  amount: number; // In the currency's minor unit, e.g. pence
+  currency: string;
+  units: number; // Persona slots granted
+  status: PurchaseStatus;
+  paymentIntentId?: string;
+  createdAt: string; // ISO date string
+  fulfilledAt?: string; // ISO date string
+  fulfillmentClaimedAt?: number; // Milliseconds since epoch; set while a webhook delivery is fulfilling a pending purchase
+  revokedAt?: string; // ISO date string, set when refunded or disputed
 }
 
 // Extended AnalyzePersonaInsightsOutput for feature #4
 export interface InteractionStatsSchema {
-  totalMessages: number;
-  userMessagesCount: number;
-  aiMessagesCount: number;
-  averageMessagesPerDay?: number; // Optional, could be complex to calculate accurately
+  totalMessages?: number;
+  userMessagesCount?: number; // Conversation logs only
+  aiMessagesCount?: number; // Conversation logs only
+  averageMessagesPerDay?: number; // Only when message dates are known
   firstMessageDate?: string; // ISO date string
   lastMessageDate?: string; // ISO date string
 }
@@ -25,12 +84,12 @@ export interface LinguisticFeaturesSchema {
   wordCount: number;
   uniqueWordCount: number;
   averageSentenceLength: number;
-  frequentPhrases?: string[]; // Top 3-5
+  frequentPhrases?: string[]; // Up to 5 recurring 2-4 word phrases
 }
 
 export interface AnalyzePersonaInsightsOutput extends OriginalAnalyzePersonaInsightsOutput {
   linguisticFeatures?: LinguisticFeaturesSchema;
-  interactionStats?: InteractionStatsSchema; // Primarily for AI chat logs, not seed history
+  interactionStats?: InteractionStatsSchema; // AI chat logs, or seed history with known message dates
 }
 
 
@@ -38,6 +97,8 @@ export interface Persona {
   id: string;
   name: string; 
   personaDescription?: string;
+  profile?: PersonaProfile; // Generated alongside personaDescription; users can edit each field
+  styleExemplars?: string[]; // Real messages from the seed history or source chat, sent as style examples with replies
   createdAt: string; // ISO date string
   avatarUrl?: string; 
   category?: string; // New field for grouping/folders
@@ -46,6 +107,8 @@ export interface Persona {
 
   // For 'user-created' personas (seed data)
   chatHistory?: string; 
+  seedSpeaker?: string; // Set when chatHistory was imported from a chat export: the participant the persona imitates
+  seedDateRange?: { first: string; last: string }; // ISO dates of seedSpeaker's first and last imported messages, when readable
   mbti?: string;
   age?: number;
   gender?: string;
@@ -59,12 +122,77 @@ export interface Persona {
   sourceChatMessagesCount?: number; 
 }
 
+export interface TrashedPersona { // persona_trash/{userId}/{personaId}: a deleted persona awaiting restore or purge
+  persona: Persona;
+  deletedAt: string; // ISO date string
+  purgeAfter: string; // ISO date string; the persona and its dependent data are purged after this
+}
+
+export type NewPersonaData = Omit<Persona, 'id' | 'createdAt'>; // The server assigns both on creation
+
 export interface ChatMessage { // For AI Persona chats
   id: string;
   sender: 'user' | 'ai';
   text: string;
   timestamp: string; // ISO date string or number (Firebase server timestamp will be number)
   context?: string; 
+  variants?: string[]; // Regenerated AI replies, oldest first; `text` is the one at variantIndex
+  variantIndex?: number;
+  editedAt?: number; // Milliseconds since epoch of the last edit of a user message
+}
+
+export interface ConversationSummary { // Running memory of an AI persona chat
+  summary: string;
+  summarizedUpToTimestamp: number; // Timestamp of the newest message folded into the summary
+  summarizedMessagesCount: number;
+  updatedAt: string; // ISO date string
+}
+
+export type PersonaDescriptionAuthor = 'creation' | 'manual' | 'development-prompt' | 'chat-refresh';
+
+export interface PersonaDescriptionVersion { // One saved state of Persona.personaDescription and profile, newest is current
+  id: string;
+  createdAt: string; // ISO date string
+  description: string;
+  profile?: PersonaProfile; // Absent when there was no profile or the version predates profile history; reverting then keeps the current one
+  author: PersonaDescriptionAuthor;
+  prompt?: string; // The development prompt that produced this version
+  revertedFromVersionId?: string; // Set when this version restores an earlier one
+}
+
+export interface PersonaInsightSnapshot { // One saved run of the insights analysis, kept to track drift over time
+  id: string;
+  createdAt: string; // ISO date string
+  insights: AnalyzePersonaInsightsOutput;
+}
+
+export interface AiUsageTotals {
+  calls: number;
+  failedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalLatencyMs: number; // Divide by calls for the average latency
+}
+
+export interface AiUsagePeriod { // One day (YYYY-MM-DD, UTC) or month (YYYY-MM) in ai_usage/{userId}
+  totals: AiUsageTotals;
+  flows?: Record<string, AiUsageTotals>; // Keyed by flow name
+}
+
+export type AiUsageCounter = Pick<AiUsageTotals, 'calls' | 'inputTokens' | 'outputTokens'>;
+
+export interface AiUsageCounters { // ai_usage/{userId}/counters: the current periods' totals the caps are checked and reserved against
+  day: string;
+  month: string;
+  daily: AiUsageCounter;
+  monthly: AiUsageCounter;
+}
+
+export interface AiUsageSnapshot {
+  day: string;
+  month: string;
+  daily: AiUsagePeriod | null;
+  monthly: AiUsagePeriod | null;
 }
 
 export interface UserChatMessage { // For User-to-User chats
@@ -93,8 +221,44 @@ export type MBTIType = typeof MBTI_TYPES[number];
 export const GENDERS = ["Male", "Female", "Non-binary", "Other", "Prefer not to say"] as const;
 export type Gender = typeof GENDERS[number];
 
+export const PERSONA_FORMALITY_LEVELS = ["very-casual", "casual", "neutral", "formal", "very-formal"] as const;
+export type PersonaFormality = typeof PERSONA_FORMALITY_LEVELS[number];
+
+export const PERSONA_MESSAGE_LENGTHS = ["very-short", "short", "medium", "long"] as const;
+export type PersonaMessageLength = typeof PERSONA_MESSAGE_LENGTHS[number];
+
+export interface PersonaProfile { // Structured counterpart of personaDescription, compiled into the chat prompt
+  tone?: string; // e.g. "warm and teasing"
+  formality?: PersonaFormality;
+  vocabulary?: string; // Word choice, slang, jargon, languages mixed in
+  catchphrases?: string[];
+  emojiHabits?: string; // Which emojis, how often, where in the message
+  messageLength?: PersonaMessageLength;
+  typingQuirks?: string[]; // e.g. "all lowercase", "no full stops", "double texts"
+  interests?: string[]; // Topics they bring up or light up about
+  topicsToAvoid?: string[];
+}
+
+export interface AccountExportUserChat { // One user-to-user thread in an account export
+  chatId: string;
+  participantIds: string[];
+  messages: UserChatMessage[]; // Oldest first
+}
+
+export interface AccountExportArchive { // Everything stored for an account, downloaded from the profile page
+  exportVersion: number;
+  exportedAt: string; // ISO date string
+  profile: Omit<UserProfile, 'geminiApiKey' | 'personaQuota'> | null; // The Gemini API key is never exported
+  contacts: UserContact[];
+  personas: ExportedPersonaData[]; // Each can be imported again on its own from the dashboard
+  userChats: AccountExportUserChat[];
+  purchases: PurchaseRecord[];
+}
+
 // For feature #1: Export Persona
-export interface ExportedPersonaData {
+export interface ExportedPersonaData { // Validated on import by src/lib/persona-export.ts
+  exportVersion?: number; // Absent in files exported before versioning; those have the version 1 layout
+  exportedAt?: string; // ISO date string
   personaDetails: Persona;
   chatMessagesWithAI?: ChatMessage[]; // Messages from AI chat interface
   // Seed chat history is part of personaDetails.chatHistory if originType is 'user-created'
@@ -0,0 +1,36 @@
+// src/lib/user-chat-history.ts
+// Formats a user-to-user chat thread as an "ai-interaction-log" history for analyzing the chat-derived persona
+// that represents the contact. The contact's lines carry their name and are the only ones measured; the app
+// user's lines are written as "User: ..." and count as conversation context.
+import { CONVERSATION_USER_SPEAKER } from './text-stats';
+import type { UserChatMessage } from './types';
+
+export interface UserChatAnalysisSource {
+  chatHistory: string;
+  contactSpeaker: string; // The name the contact's lines carry, to pass as targetSpeaker
+  contactMessageCount: number;
+  messageDates: string[]; // First and last message of the thread, when the timestamps are readable
+}
+
+export const buildUserChatAnalysisSource = (
+  messages: UserChatMessage[],
+  contact: { id: string; name: string }
+): UserChatAnalysisSource => {
+  // A contact literally named "User" would be indistinguishable from the app user's lines.
+  const contactSpeaker = contact.name === CONVERSATION_USER_SPEAKER ? `${contact.name} (contact)` : contact.name;
+  const times = messages
+    .map((message) => (typeof message.timestamp === 'number' ? message.timestamp : Date.parse(message.timestamp)))
+    .filter((time) => !Number.isNaN(time));
+
+  return {
+    chatHistory: messages
+      .map((message) => `${message.senderUserId === contact.id ? contactSpeaker : CONVERSATION_USER_SPEAKER}: ${message.text}`)
+      .join('\n'),
+    contactSpeaker,
+    contactMessageCount: messages.filter((message) => message.senderUserId === contact.id).length,
+    // A loop rather than Math.min(...times): spreading a long thread's timestamps overflows the call stack.
+    messageDates: times.length > 0
+      ? [new Date(times.reduce((min, time) => Math.min(min, time))).toISOString(), new Date(times.reduce((max, time) => Math.max(max, time))).toISOString()]
+      : [],
+  };
+};
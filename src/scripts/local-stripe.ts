@@ -0,0 +1,396 @@
+/**
+ * @fileOverview A local stand-in for Stripe, so the real checkout -> webhook -> fulfilment path runs offline.
+ *
+ *   npm run stripe:local
+ *
+ * It implements the handful of Stripe API calls the app makes (Checkout Sessions, Payment Intents, Subscriptions,
+ * Customer Portal sessions), serves simple hosted Checkout and Customer Portal pages, and sends signed webhook
+ * events to /api/stripe/webhook exactly as Stripe would. A dashboard at the server's root lists every session and
+ * subscription and can refund, dispute, renew or cancel them to exercise the revocation and subscription paths.
+ *
+ * Point the app at it by setting, in .env.local:
+ *   STRIPE_LOCAL_API_URL="http://localhost:12111"
+ *   STRIPE_WEBHOOK_SECRET="whsec_local"           (any value; both processes must share it)
+ *   STRIPE_PRICE_ID_PERSONA_SLOT / STRIPE_PRICE_ID_PRO_SUBSCRIPTION (any placeholder ids)
+ *
+ * State is kept in memory and lost on restart. The app ignores STRIPE_LOCAL_API_URL in production.
+ */
+import { config } from 'dotenv';
+import { randomUUID } from 'crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import Stripe from 'stripe';
+import { PAID_PERSONA_PRICE_POUNDS, PRO_PLAN_PRICE_POUNDS_MONTHLY, STRIPE_CURRENCY } from '@/lib/constants';
+
+config({ path: ['.env.local', '.env'] });
+
+const DEFAULT_LOCAL_API_URL = 'http://localhost:12111';
+const DELAYED_PAYMENT_MS = 5000;
+const SUBSCRIPTION_PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+const apiUrl = new URL(process.env.STRIPE_LOCAL_API_URL || DEFAULT_LOCAL_API_URL);
+const baseUrl = apiUrl.origin;
+const webhookUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:9002'}/api/stripe/webhook`;
+const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+// Only used to sign webhook payloads; it never talks to api.stripe.com.
+const signer = new Stripe('sk_test_local', { apiVersion: '2024-06-20' });
+
+type StripeObject = Record<string, any>;
+
+const sessions = new Map<string, StripeObject>();
+const subscriptions = new Map<string, StripeObject>();
+const portalSessions = new Map<string, StripeObject>();
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+const newId = (prefix: string) => `${prefix}_local_${randomUUID().replace(/-/g, '').slice(0, 24)}`;
+
+// Stripe's API takes form-encoded bodies with bracketed keys, e.g. `subscription_data[metadata][userId]=...`.
+const parseStripeForm = (body: string): StripeObject => {
+  const result: StripeObject = {};
+  for (const [key, value] of new URLSearchParams(body)) {
+    const path = key.replace(/\]/g, '').split('[');
+    let target = result;
+    path.forEach((segment, index) => {
+      if (index === path.length - 1) {
+        target[segment] = value;
+      } else {
+        target[segment] = target[segment] ?? {};
+        target = target[segment];
+      }
+    });
+  }
+  return result;
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendStripeError = (res: ServerResponse, status: number, message: string) =>
+  sendJson(res, status, { error: { type: 'invalid_request_error', message } });
+
+const redirect = (res: ServerResponse, location: string) => {
+  res.writeHead(303, { Location: location });
+  res.end();
+};
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '').replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const sendPage = (res: ServerResponse, title: string, body: string) => {
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>body{font-family:system-ui,sans-serif;max-width:760px;margin:2rem auto;padding:0 1rem}table{border-collapse:collapse;width:100%}
+td,th{border-bottom:1px solid #ddd;padding:.4rem;text-align:left;font-size:.85rem}form{display:inline}button{margin:.15rem}</style>
+</head><body><p><em>Local Stripe stand-in - no real payments are made.</em></p>${body}</body></html>`);
+};
+
+const actionButton = (action: string, label: string) =>
+  `<form method="post" action="${escapeHtml(action)}"><button>${escapeHtml(label)}</button></form>`;
+
+// --- Webhooks ---
+
+const sendEvent = async (type: string, object: StripeObject): Promise<void> => {
+  if (!webhookSecret) {
+    console.warn(`[local-stripe] STRIPE_WEBHOOK_SECRET is not set; not sending ${type}.`);
+    return;
+  }
+  const payload = JSON.stringify({
+    id: newId('evt'),
+    object: 'event',
+    api_version: '2024-06-20',
+    created: nowSeconds(),
+    livemode: false,
+    type,
+    data: { object },
+  });
+  const signature = signer.webhooks.generateTestHeaderString({ payload, secret: webhookSecret });
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'stripe-signature': signature },
+      body: payload,
+    });
+    console.log(`[local-stripe] ${type} -> ${response.status} ${await response.text()}`);
+  } catch (error: any) {
+    console.error(`[local-stripe] Could not deliver ${type} to ${webhookUrl}: ${error.message}`);
+  }
+};
+
+// --- API objects ---
+
+const createCheckoutSession = (params: StripeObject): StripeObject => {
+  const mode = params.mode === 'subscription' ? 'subscription' : 'payment';
+  const id = newId('cs');
+  // Any price id is accepted; amounts come from the app's own price constants.
+  const unitAmount = (mode === 'subscription' ? PRO_PLAN_PRICE_POUNDS_MONTHLY : PAID_PERSONA_PRICE_POUNDS) * 100;
+  const quantity = Number(params.line_items?.['0']?.quantity ?? 1);
+  const session: StripeObject = {
+    id,
+    object: 'checkout.session',
+    mode,
+    status: 'open',
+    payment_status: 'unpaid',
+    amount_total: unitAmount * quantity,
+    currency: STRIPE_CURRENCY,
+    client_reference_id: params.client_reference_id ?? null,
+    customer: params.customer ?? null,
+    metadata: params.metadata ?? {},
+    subscription_metadata: params.subscription_data?.metadata ?? {},
+    payment_intent: null,
+    subscription: null,
+    success_url: params.success_url,
+    cancel_url: params.cancel_url,
+    url: `${baseUrl}/checkout/${id}`,
+    created: nowSeconds(),
+  };
+  sessions.set(id, session);
+  return session;
+};
+
+// The session as the API returns it (without the stand-in's own bookkeeping fields).
+const toApiSession = ({ subscription_metadata: _subscriptionMetadata, charge: _charge, ...session }: StripeObject) => session;
+
+const completeCheckout = async (session: StripeObject, delayed: boolean): Promise<void> => {
+  session.status = 'complete';
+  session.customer = session.customer ?? newId('cus');
+
+  if (session.mode === 'subscription') {
+    const subscription: StripeObject = {
+      id: newId('sub'),
+      object: 'subscription',
+      customer: session.customer,
+      status: 'active',
+      metadata: session.subscription_metadata,
+      current_period_start: nowSeconds(),
+      current_period_end: nowSeconds() + SUBSCRIPTION_PERIOD_SECONDS,
+      cancel_at_period_end: false,
+    };
+    subscriptions.set(subscription.id, subscription);
+    session.subscription = subscription.id;
+    session.payment_status = 'paid';
+    await sendEvent('customer.subscription.created', subscription);
+    await sendEvent('checkout.session.completed', toApiSession(session));
+    return;
+  }
+
+  session.payment_intent = newId('pi');
+  session.charge = newId('ch');
+  if (!delayed) {
+    session.payment_status = 'paid';
+    await sendEvent('checkout.session.completed', toApiSession(session));
+    return;
+  }
+
+  // Delayed payment methods (e.g. bank debits) complete unpaid and clear later.
+  await sendEvent('checkout.session.completed', toApiSession(session));
+  setTimeout(() => {
+    session.payment_status = 'paid';
+    void sendEvent('checkout.session.async_payment_succeeded', toApiSession(session));
+  }, DELAYED_PAYMENT_MS);
+};
+
+const chargeFor = (session: StripeObject, extra: StripeObject = {}): StripeObject => ({
+  id: session.charge,
+  object: 'charge',
+  amount: session.amount_total,
+  currency: session.currency,
+  payment_intent: session.payment_intent,
+  refunded: false,
+  ...extra,
+});
+
+const updateSubscription = async (subscription: StripeObject, action: string): Promise<void> => {
+  if (action === 'cancel-at-period-end') {
+    subscription.cancel_at_period_end = true;
+  } else if (action === 'resume') {
+    subscription.cancel_at_period_end = false;
+  } else if (action === 'renew') {
+    subscription.status = 'active';
+    subscription.current_period_start = subscription.current_period_end;
+    subscription.current_period_end += SUBSCRIPTION_PERIOD_SECONDS;
+  } else if (action === 'past-due') {
+    subscription.status = 'past_due';
+  } else if (action === 'cancel-now') {
+    subscription.status = 'canceled';
+    subscription.cancel_at_period_end = false;
+    await sendEvent('customer.subscription.deleted', subscription);
+    return;
+  }
+  await sendEvent('customer.subscription.updated', subscription);
+};
+
+const subscriptionActions = (subscription: StripeObject, prefix: string) =>
+  subscription.status === 'canceled'
+    ? ''
+    : [
+        subscription.cancel_at_period_end
+          ? actionButton(`${prefix}/subscriptions/${subscription.id}/resume`, 'Resume')
+          : actionButton(`${prefix}/subscriptions/${subscription.id}/cancel-at-period-end`, 'Cancel at period end'),
+        actionButton(`${prefix}/subscriptions/${subscription.id}/cancel-now`, 'Cancel now'),
+        actionButton(`${prefix}/subscriptions/${subscription.id}/renew`, 'Renew'),
+        actionButton(`${prefix}/subscriptions/${subscription.id}/past-due`, 'Mark past due'),
+      ].join('');
+
+const subscriptionRow = (subscription: StripeObject, prefix: string) => `<tr>
+<td>${escapeHtml(subscription.id)}</td><td>${escapeHtml(subscription.metadata?.userId)}</td>
+<td>${escapeHtml(subscription.status)}${subscription.cancel_at_period_end ? ' (cancels at period end)' : ''}</td>
+<td>${new Date(subscription.current_period_end * 1000).toLocaleDateString()}</td>
+<td>${subscriptionActions(subscription, prefix)}</td></tr>`;
+
+// --- Pages ---
+
+const dashboardPage = (res: ServerResponse) => {
+  const sessionRows = [...sessions.values()].reverse().map((session) => `<tr>
+<td>${escapeHtml(session.id)}</td><td>${escapeHtml(session.client_reference_id)}</td><td>${escapeHtml(session.mode)}</td>
+<td>${escapeHtml(session.status)} / ${escapeHtml(session.payment_status)}</td>
+<td>${session.status === 'open' ? `<a href="/checkout/${escapeHtml(session.id)}">Open checkout</a>` : ''}
+${session.mode === 'payment' && session.payment_status === 'paid' && !session.refunded
+    ? actionButton(`/sessions/${session.id}/refund`, 'Refund') + actionButton(`/sessions/${session.id}/dispute`, 'Dispute')
+    : ''}</td></tr>`).join('');
+  const subscriptionRows = [...subscriptions.values()].map((subscription) => subscriptionRow(subscription, '')).join('');
+  sendPage(res, 'Local Stripe', `<h1>Local Stripe</h1><p>Webhooks are sent to <code>${escapeHtml(webhookUrl)}</code>.</p>
+<h2>Checkout sessions</h2><table><tr><th>Session</th><th>User</th><th>Mode</th><th>Status</th><th></th></tr>${sessionRows}</table>
+<h2>Subscriptions</h2><table><tr><th>Subscription</th><th>User</th><th>Status</th><th>Period end</th><th></th></tr>${subscriptionRows}</table>`);
+};
+
+const checkoutPage = (res: ServerResponse, session: StripeObject) => {
+  const amount = (session.amount_total / 100).toFixed(2);
+  const description = session.mode === 'subscription' ? `Pro subscription, £${amount}/month` : `£${amount} one-time payment`;
+  sendPage(res, 'Checkout', session.status !== 'open'
+    ? `<h1>Checkout</h1><p>This session is ${escapeHtml(session.status)}.</p>`
+    : `<h1>Checkout</h1><p>${escapeHtml(description)}</p>
+${actionButton(`/checkout/${session.id}/pay`, 'Pay')}
+${session.mode === 'payment' ? actionButton(`/checkout/${session.id}/pay-delayed`, `Pay with a delayed method (clears in ${DELAYED_PAYMENT_MS / 1000}s)`) : ''}
+${actionButton(`/checkout/${session.id}/cancel`, 'Cancel')}`);
+};
+
+const portalPage = (res: ServerResponse, portalSession: StripeObject) => {
+  const rows = [...subscriptions.values()]
+    .filter((subscription) => subscription.customer === portalSession.customer)
+    .map((subscription) => subscriptionRow(subscription, `/portal/${portalSession.id}`))
+    .join('');
+  sendPage(res, 'Customer Portal', `<h1>Customer Portal</h1>
+<table><tr><th>Subscription</th><th>User</th><th>Status</th><th>Period end</th><th></th></tr>${rows}</table>
+<p><a href="${escapeHtml(portalSession.return_url)}">Return to the app</a></p>`);
+};
+
+// --- Routing ---
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  const url = new URL(req.url ?? '/', baseUrl);
+  const segments = url.pathname.split('/').filter(Boolean);
+  const method = req.method ?? 'GET';
+  const body = method === 'POST' ? await readBody(req) : '';
+
+  // Stripe API (as called by the stripe SDK)
+  if (segments[0] === 'v1') {
+    const resource = segments.slice(1).join('/');
+    if (method === 'POST' && resource === 'checkout/sessions') {
+      return sendJson(res, 200, toApiSession(createCheckoutSession(parseStripeForm(body))));
+    }
+    if (method === 'GET' && segments[1] === 'checkout' && segments[2] === 'sessions' && segments[3]) {
+      const session = sessions.get(segments[3]);
+      return session ? sendJson(res, 200, toApiSession(session)) : sendStripeError(res, 404, `No such checkout.session: '${segments[3]}'`);
+    }
+    if (method === 'GET' && segments[1] === 'payment_intents' && segments[2]) {
+      const session = [...sessions.values()].find((candidate) => candidate.payment_intent === segments[2]);
+      if (!session) return sendStripeError(res, 404, `No such payment_intent: '${segments[2]}'`);
+      return sendJson(res, 200, {
+        id: session.payment_intent,
+        object: 'payment_intent',
+        amount: session.amount_total,
+        currency: session.currency,
+        status: session.payment_status === 'paid' ? 'succeeded' : 'processing',
+      });
+    }
+    if (method === 'GET' && segments[1] === 'subscriptions' && segments[2]) {
+      const subscription = subscriptions.get(segments[2]);
+      return subscription ? sendJson(res, 200, subscription) : sendStripeError(res, 404, `No such subscription: '${segments[2]}'`);
+    }
+    if (method === 'POST' && resource === 'billing_portal/sessions') {
+      const params = parseStripeForm(body);
+      const portalSession = { id: newId('bps'), object: 'billing_portal.session', customer: params.customer, return_url: params.return_url };
+      portalSessions.set(portalSession.id, portalSession);
+      return sendJson(res, 200, { ...portalSession, url: `${baseUrl}/portal/${portalSession.id}` });
+    }
+    return sendStripeError(res, 404, `Unrecognized request URL (${method}: ${url.pathname}). The local stand-in only implements what the app uses.`);
+  }
+
+  if (segments.length === 0) return dashboardPage(res);
+
+  if (segments[0] === 'checkout' && segments[1]) {
+    const session = sessions.get(segments[1]);
+    if (!session) return sendStripeError(res, 404, 'No such checkout session.');
+    if (method === 'GET') return checkoutPage(res, session);
+    if (session.status !== 'open') return redirect(res, `/checkout/${session.id}`);
+    if (segments[2] === 'cancel') {
+      session.status = 'expired';
+      return redirect(res, session.cancel_url);
+    }
+    await completeCheckout(session, segments[2] === 'pay-delayed');
+    return redirect(res, session.success_url.replace('{CHECKOUT_SESSION_ID}', session.id));
+  }
+
+  if (segments[0] === 'sessions' && segments[1] && method === 'POST') {
+    const session = sessions.get(segments[1]);
+    if (!session) return sendStripeError(res, 404, 'No such checkout session.');
+    if (segments[2] === 'refund') {
+      session.refunded = true;
+      await sendEvent('charge.refunded', chargeFor(session, { refunded: true, amount_refunded: session.amount_total }));
+    } else if (segments[2] === 'dispute') {
+      await sendEvent('charge.dispute.created', {
+        id: newId('dp'),
+        object: 'dispute',
+        amount: session.amount_total,
+        charge: session.charge,
+        payment_intent: session.payment_intent,
+        status: 'needs_response',
+      });
+    }
+    return redirect(res, '/');
+  }
+
+  // Subscription actions, from the dashboard (/subscriptions/...) or a Customer Portal page (/portal/{id}/subscriptions/...).
+  const portalSession = segments[0] === 'portal' ? portalSessions.get(segments[1]) : undefined;
+  if (segments[0] === 'portal' && !portalSession) return sendStripeError(res, 404, 'No such portal session.');
+  if (portalSession && segments.length === 2) return portalPage(res, portalSession);
+  const subscriptionSegments = portalSession ? segments.slice(2) : segments;
+  if (subscriptionSegments[0] === 'subscriptions' && method === 'POST') {
+    const subscription = subscriptions.get(subscriptionSegments[1]);
+    if (!subscription || (portalSession && subscription.customer !== portalSession.customer)) {
+      return sendStripeError(res, 404, 'No such subscription.');
+    }
+    await updateSubscription(subscription, subscriptionSegments[2]);
+    return redirect(res, portalSession ? `/portal/${portalSession.id}` : '/');
+  }
+
+  return sendStripeError(res, 404, 'Not found.');
+};
+
+if (process.env.NODE_ENV === 'production') {
+  console.error('The local Stripe stand-in must not run in production.');
+  process.exit(1);
+}
+if (!webhookSecret) {
+  console.warn('[local-stripe] STRIPE_WEBHOOK_SECRET is not set. Checkouts will complete but no webhooks will be sent.');
+}
+
+createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    console.error('[local-stripe] Request failed:', error);
+    sendStripeError(res, 500, error.message);
+  });
+}).listen(Number(apiUrl.port) || 12111, apiUrl.hostname, () => {
+  console.log(`[local-stripe] Listening on ${baseUrl}. Dashboard: ${baseUrl}/`);
+  console.log(`[local-stripe] Sending webhooks to ${webhookUrl}.`);
+});
@@ -0,0 +1,57 @@
+/**
+ * @fileOverview Admin tooling for entitlements/{uid}, which clients cannot write.
+ *
+ *   npm run entitlements:set -- <uid> <personaQuota>   Sets a user's persona quota.
+ *   npm run entitlements:set -- --migrate-legacy       Copies quotas still stored at users/{uid}/personaQuota into
+ *                                                      entitlements (where none exist yet) and removes the old field.
+ *
+ * Uses the same Firebase Admin credentials as the app (FIREBASE_SERVICE_ACCOUNT_KEY or Application Default Credentials).
+ */
+import { config } from 'dotenv';
+config();
+
+async function main() {
+  // Imported after dotenv has loaded the Firebase configuration.
+  const { getAdminDb } = await import('@/lib/firebase-admin');
+  const { USERS_PATH } = await import('@/lib/store');
+  const { getUserEntitlements, hasUserProfile, setPersonaQuota } = await import('@/lib/entitlements');
+
+  const [firstArg, secondArg] = process.argv.slice(2);
+
+  if (firstArg === '--migrate-legacy') {
+    const usersSnapshot = await getAdminDb().ref(USERS_PATH).get();
+    const users = (usersSnapshot.val() ?? {}) as Record<string, { personaQuota?: unknown }>;
+    let migratedCount = 0;
+    for (const [uid, profile] of Object.entries(users)) {
+      if (typeof profile?.personaQuota !== 'number') continue;
+      if (!(await getUserEntitlements(uid))) {
+        await setPersonaQuota(uid, profile.personaQuota, 'admin');
+        migratedCount++;
+      }
+      await getAdminDb().ref(`${USERS_PATH}/${uid}/personaQuota`).remove();
+    }
+    console.log(`Migrated ${migratedCount} legacy persona quota(s) to entitlements.`);
+    return;
+  }
+
+  const personaQuota = Number(secondArg);
+  if (!firstArg || !Number.isInteger(personaQuota) || personaQuota < 0) {
+    console.error('Usage: npm run entitlements:set -- <uid> <personaQuota> | --migrate-legacy');
+    process.exitCode = 1;
+    return;
+  }
+  if (!(await hasUserProfile(firstArg))) {
+    console.error(`No user profile found for ${firstArg}.`);
+    process.exitCode = 1;
+    return;
+  }
+  await setPersonaQuota(firstArg, personaQuota, 'admin');
+  console.log(`Set persona quota for ${firstArg} to ${personaQuota}.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());